@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   LayoutDashboard, 
   Timer as TimerIcon, 
@@ -18,7 +18,15 @@ import {
   Plus,
   Trophy,
   Loader2,
-  Camera
+  Camera,
+  RotateCcw,
+  AlertTriangle,
+  Pencil,
+  Library,
+  Sheet,
+  GraduationCap,
+  CloudOff,
+  RefreshCw
 } from 'lucide-react';
 import { 
   BarChart,
@@ -33,99 +41,257 @@ import {
 import { Timer } from './components/Timer';
 import { Dashboard } from './components/Dashboard';
 import { Button } from './components/Button';
-import { generateStudyInsights, verifyMCQProof } from './services/geminiService';
-import { StudySession, ViewState, MCQLog } from './types';
-import ReactMarkdown from 'react-markdown';
-
-const DEFAULT_NEET_PG_SUBJECTS = [
-  "Anatomy", 
-  "Physiology", 
-  "Biochemistry",
-  "Pathology", 
-  "Pharmacology", 
-  "Microbiology",
-  "Forensic Medicine", 
-  "Community Medicine (PSM)",
-  "ENT", 
-  "Ophthalmology",
-  "General Medicine", 
-  "General Surgery", 
-  "Obstetrics & Gynaecology", 
-  "Pediatrics",
-  "Orthopedics", 
-  "Radiology", 
-  "Dermatology", 
-  "Anesthesia", 
-  "Psychiatry"
-];
+import { SessionForm } from './components/SessionForm';
+import { RevisionQueue } from './components/RevisionQueue';
+import { SyllabusView } from './components/SyllabusView';
+import { ImportDialog } from './components/ImportDialog';
+import { MCQLogForm } from './components/MCQLogForm';
+import { MCQAccuracyPanel } from './components/MCQAccuracyPanel';
+import { ProofReviewQueue } from './components/ProofReviewQueue';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { MockTestForm } from './components/MockTestForm';
+import { MockTestsView } from './components/MockTestsView';
+import { GoalsPanel } from './components/GoalsPanel';
+import { GoalSettingsCard } from './components/GoalSettingsCard';
+import { ExamPlanner } from './components/ExamPlanner';
+import { ExamSettingsCard } from './components/ExamSettingsCard';
+import { AISettingsCard } from './components/AISettingsCard';
+import { StudyAnalyticsPanel } from './components/StudyAnalyticsPanel';
+import { CoachReportView } from './components/CoachReportView';
+import { CoachChat } from './components/CoachChat';
+import { ActiveTimerIndicator } from './components/ActiveTimerIndicator';
+import { IdlePromptDialog } from './components/IdlePromptDialog';
+import { TimerAlertsCard } from './components/TimerAlertsCard';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { ProfilesCard } from './components/ProfilesCard';
+import { createAIProvider } from './services/ai';
+import { AISettings, AIProviderError, classifyAIError, loadAISettings, saveAISettings } from './services/aiProvider';
+import { DEFAULT_SYLLABUS, indexSyllabus, findNodeByLabel, resolveSessionNode, getSessionSubjectGroup } from './services/syllabus';
+import { validateBackup, BackupData, BackupValidation, BackupFormatError } from './services/backup';
+import { hasScore } from './services/mcqStats';
+import { ProofCheckResult, ProofReviewItem, applyProofResult, checkMCQProof, checkMCQProofs, proofItemToLog } from './services/mcqProof';
+import { DEFAULT_GOALS, normalizeGoals } from './services/goals';
+import { DEFAULT_EXAM_SETTINGS, normalizeExamSettings } from './services/examPlanner';
+import { computeStudyAnalytics, formatFindingsForPrompt } from './services/studyAnalytics';
+import { createCoachReport, describePreviousReport, getReportMetrics } from './services/coachReports';
+import { buildCoachContext } from './services/coachContext';
+import { getGrossSeconds, isDistractionTracked } from './services/distractions';
+import { sessionsToCSV, mcqLogsToCSV, CsvRecordKind } from './services/csvData';
+import { loadAppData, syncCollection, saveMeta } from './services/storage';
+import { registerServiceWorker } from './services/serviceWorker';
+import { AppRoute, DEFAULT_HISTORY_FILTERS, formatRoute, parseRoute } from './services/router';
+import { OUTBOX_RETRY_MS, createProofOutboxEntry, createReportOutboxEntry, describeOutbox, hasPendingReport, outboxEntryToFile } from './services/outbox';
+import { LAST_SEEN_INTERVAL_MS, loadActiveTimer, saveActiveTimer, clearActiveTimer, finishTimer, getElapsedSeconds, advanceIntervalTimer, trimIdleTime, recordTabSwitch } from './services/timerStorage';
+import {
+  createProfile,
+  deleteProfile,
+  getActiveProfileId,
+  loadProfiles,
+  lockProfile,
+  markProfileUnlocked,
+  profileFileSlug,
+  renameProfile,
+  setProfilePin,
+  switchProfile,
+  verifyProfilePin
+} from './services/profiles';
+import { MILESTONE_GRACE_MS, getTimerMilestone, isIdleWatched, loadTimerAlerts, playAlertSound, saveTimerAlerts, showTimerNotification } from './services/timerAlerts';
+import { StudySession, ViewState, MCQLog, MockTest, CoachReport, CoachConversation, CoachChatMessage, GoalSettings, ExamSettings, ActiveTimerSnapshot, OutboxEntry, TimerAlertSettings, StudyProfile } from './types';
+import { getLocalDateString } from './utils/date';
+import { parseCSV, downloadTextFile } from './utils/csv';
+import { DEFAULT_NEET_PG_SUBJECTS } from './constants';
+
+const SYLLABUS_INDEX = indexSyllabus(DEFAULT_SYLLABUS);
+
+// Links a session to the syllabus node its subject names, e.g. "Pathology - Hematology"
+const linkToSyllabus = <T extends Pick<StudySession, 'subject' | 'syllabusNodeId'>>(session: T): T => ({
+  ...session,
+  syllabusNodeId: findNodeByLabel(SYLLABUS_INDEX, session.subject)?.node.id,
+});
 
 const App: React.FC = () => {
   const [sessions, setSessions] = useState<StudySession[]>([]);
   const [studyPlan, setStudyPlan] = useState<string[]>([]);
   const [mcqLogs, setMcqLogs] = useState<MCQLog[]>([]);
-  const [view, setView] = useState<ViewState>(ViewState.DASHBOARD);
-  const [insight, setInsight] = useState<string | null>(null);
+  const [mockTests, setMockTests] = useState<MockTest[]>([]);
+  const [coachReports, setCoachReports] = useState<CoachReport[]>([]);
+  const [conversations, setConversations] = useState<CoachConversation[]>([]);
+  const [goals, setGoals] = useState<GoalSettings>(DEFAULT_GOALS);
+  const [exams, setExams] = useState<ExamSettings>(DEFAULT_EXAM_SETTINGS);
+  // The URL hash holds the view, History filters and a Timer subject (see router.ts)
+  const [initialRoute] = useState(() => parseRoute(window.location.hash));
+  const [view, setView] = useState<ViewState>(initialRoute.view);
+  const [timerSubject, setTimerSubject] = useState<string | undefined>(initialRoute.timerSubject);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
   const [loadingInsight, setLoadingInsight] = useState(false);
-  const [verifyingMCQ, setVerifyingMCQ] = useState(false);
+  const [insightError, setInsightError] = useState<string | null>(null);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [chatSending, setChatSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [aiSettings, setAISettings] = useState<AISettings>(() => loadAISettings());
+  // Uploaded proof images waiting for review; not persisted
+  const [proofQueue, setProofQueue] = useState<ProofReviewItem[]>([]);
+  // AI requests made offline, sent once the connection is back
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Activates the waiting service worker; set when a new version is installed
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [showMCQForm, setShowMCQForm] = useState(false);
+  const [editingMockTest, setEditingMockTest] = useState<MockTest | 'NEW' | null>(null);
+  // The open Timer session, restored after a reload or tab kill. It lives here
+  // so phases, alerts and the idle check keep running on every view.
+  const [activeTimer, setActiveTimer] = useState<ActiveTimerSnapshot | null>(() => loadActiveTimer());
+  // A session found on load is offered for resume until the Timer is opened
+  const [timerRecovered, setTimerRecovered] = useState(() => activeTimer !== null);
+  const [timerAlerts, setTimerAlerts] = useState<TimerAlertSettings>(() => loadTimerAlerts());
+  const [idlePrompt, setIdlePrompt] = useState<{ since: number } | null>(null);
+  // Everything above is loaded for the profile this tab opened with
+  const [profiles, setProfiles] = useState<StudyProfile[]>(() => loadProfiles().profiles);
+  const activeProfileId = getActiveProfileId();
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
 
   // Filter State
-  const [filterSubject, setFilterSubject] = useState<string>('ALL');
-  const [filterConcentration, setFilterConcentration] = useState<string>('ALL');
-  const [filterStartDate, setFilterStartDate] = useState<string>('');
-  const [filterEndDate, setFilterEndDate] = useState<string>('');
+  const initialFilters = initialRoute.historyFilters ?? DEFAULT_HISTORY_FILTERS;
+  const [filterSubject, setFilterSubject] = useState<string>(initialFilters.subject);
+  const [filterConcentration, setFilterConcentration] = useState<string>(initialFilters.concentration);
+  const [filterStartDate, setFilterStartDate] = useState<string>(initialFilters.startDate);
+  const [filterEndDate, setFilterEndDate] = useState<string>(initialFilters.endDate);
+
+  // History Editing State ('NEW' opens the form for a backfilled session)
+  const [editingSession, setEditingSession] = useState<StudySession | 'NEW' | null>(null);
   
   // Settings Local State
   const [planInput, setPlanInput] = useState('');
 
+  // Import State (validated backup waiting for the user to confirm)
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; validation: BackupValidation; allowReplace: boolean } | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; table: string[][] } | null>(null);
+
+  // Storage State
+  const [storageStatus, setStorageStatus] = useState<'LOADING' | 'READY' | 'FAILED'>('LOADING');
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const persistedRef = useRef<{
+    sessions: StudySession[]; mcqLogs: MCQLog[]; mockTests: MockTest[]; coachReports: CoachReport[]; conversations: CoachConversation[]; outbox: OutboxEntry[]
+  }>({ sessions: [], mcqLogs: [], mockTests: [], coachReports: [], conversations: [], outbox: [] });
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
   const mcqImageInputRef = useRef<HTMLInputElement>(null);
 
-  // Load from local storage on mount
+  // Load from IndexedDB on mount. Until this succeeds nothing is written back,
+  // so a failed read can never be followed by a save of empty arrays.
   useEffect(() => {
-    const savedSessions = localStorage.getItem('focusflow_sessions');
-    if (savedSessions) {
-      try {
-        setSessions(JSON.parse(savedSessions));
-      } catch (e) {
-        console.error("Failed to parse sessions", e);
-      }
-    }
+    let cancelled = false;
+    loadAppData()
+      .then(data => {
+        if (cancelled) return;
+        persistedRef.current = {
+          sessions: data.sessions,
+          mcqLogs: data.mcqLogs,
+          mockTests: data.mockTests,
+          coachReports: data.coachReports,
+          conversations: data.conversations,
+          outbox: data.outbox,
+        };
+        setSessions(data.sessions);
+        setMcqLogs(data.mcqLogs);
+        setMockTests(data.mockTests);
+        setCoachReports(data.coachReports);
+        setConversations(data.conversations);
+        setOutbox(data.outbox);
+        setStudyPlan(data.studyPlan ?? DEFAULT_NEET_PG_SUBJECTS);
+        setGoals(normalizeGoals(data.goals));
+        setExams(normalizeExamSettings(data.exams));
+        setStorageStatus('READY');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("Failed to load saved data", error);
+        setStorageError(`${error.message} Changes made now will not be saved, so your stored data stays untouched.`);
+        setStorageStatus('FAILED');
+      });
+    return () => { cancelled = true; };
+  }, []);
 
-    const savedPlan = localStorage.getItem('focusflow_plan');
-    if (savedPlan) {
-      try {
-        setStudyPlan(JSON.parse(savedPlan));
-      } catch (e) {
-        console.error("Failed to parse study plan", e);
-        setStudyPlan(DEFAULT_NEET_PG_SUBJECTS);
-      }
-    } else {
-      setStudyPlan(DEFAULT_NEET_PG_SUBJECTS);
-    }
+  const handleSaveError = (error: unknown) => {
+    console.error("Failed to save data", error);
+    setStorageError("Your latest changes could not be saved. Export a backup from Settings before closing the app.");
+  };
 
-    const savedMCQs = localStorage.getItem('focusflow_mcqs');
-    if (savedMCQs) {
-      try {
-        setMcqLogs(JSON.parse(savedMCQs));
-      } catch (e) {
-        console.error("Failed to parse MCQ logs", e);
-      }
-    }
-  }, []);
+  // Save only what changed since the last write
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.sessions;
+    persistedRef.current = { ...persistedRef.current, sessions };
+    syncCollection('sessions', previous, sessions).catch(handleSaveError);
+  }, [sessions, storageStatus]);
+
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.mcqLogs;
+    persistedRef.current = { ...persistedRef.current, mcqLogs };
+    syncCollection('mcqLogs', previous, mcqLogs).catch(handleSaveError);
+  }, [mcqLogs, storageStatus]);
+
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.mockTests;
+    persistedRef.current = { ...persistedRef.current, mockTests };
+    syncCollection('mockTests', previous, mockTests).catch(handleSaveError);
+  }, [mockTests, storageStatus]);
+
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.coachReports;
+    persistedRef.current = { ...persistedRef.current, coachReports };
+    syncCollection('coachReports', previous, coachReports).catch(handleSaveError);
+  }, [coachReports, storageStatus]);
 
-  // Save to local storage on update
   useEffect(() => {
-    localStorage.setItem('focusflow_sessions', JSON.stringify(sessions));
-  }, [sessions]);
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.conversations;
+    persistedRef.current = { ...persistedRef.current, conversations };
+    syncCollection('conversations', previous, conversations).catch(handleSaveError);
+  }, [conversations, storageStatus]);
 
   useEffect(() => {
-    localStorage.setItem('focusflow_plan', JSON.stringify(studyPlan));
-  }, [studyPlan]);
+    if (storageStatus !== 'READY') return;
+    const previous = persistedRef.current.outbox;
+    persistedRef.current = { ...persistedRef.current, outbox };
+    syncCollection('outbox', previous, outbox).catch(handleSaveError);
+  }, [outbox, storageStatus]);
 
   useEffect(() => {
-    localStorage.setItem('focusflow_mcqs', JSON.stringify(mcqLogs));
-  }, [mcqLogs]);
+    if (storageStatus !== 'READY') return;
+    saveMeta('studyPlan', studyPlan).catch(handleSaveError);
+  }, [studyPlan, storageStatus]);
+
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    saveMeta('goals', goals).catch(handleSaveError);
+  }, [goals, storageStatus]);
+
+  useEffect(() => {
+    if (storageStatus !== 'READY') return;
+    saveMeta('exams', exams).catch(handleSaveError);
+  }, [exams, storageStatus]);
   
+  // The setter form keeps React from calling `apply` as an updater
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
   // Sync plan input when view changes to settings
   useEffect(() => {
     if (view === ViewState.SETTINGS) {
@@ -133,62 +299,505 @@ const App: React.FC = () => {
     }
   }, [view, studyPlan]);
 
-  const addSession = (sessionData: Omit<StudySession, 'id'>) => {
+  // Once the Timer is opened it owns the recovered session; a preselected
+  // subject only applies to the visit it was chosen for
+  useEffect(() => {
+    if (view === ViewState.TIMER) setTimerRecovered(false);
+    else setTimerSubject(undefined);
+  }, [view]);
+
+  // Opening another view adds a browser history entry; changing filters or the
+  // Timer subject only updates the current one. A URL that arrives on load or
+  // from back/forward is normalized in place, so forward history survives.
+  const routedViewRef = useRef(view);
+  useEffect(() => {
+    const hash = formatRoute({
+      view,
+      timerSubject,
+      historyFilters: { subject: filterSubject, concentration: filterConcentration, startDate: filterStartDate, endDate: filterEndDate },
+    });
+    if (hash !== window.location.hash) {
+      if (routedViewRef.current !== view) window.history.pushState(null, '', hash);
+      else window.history.replaceState(null, '', hash);
+    }
+    routedViewRef.current = view;
+  }, [view, timerSubject, filterSubject, filterConcentration, filterStartDate, filterEndDate]);
+
+  // Back/forward and edited or followed links
+  useEffect(() => {
+    const applyRoute = (route: AppRoute) => {
+      routedViewRef.current = route.view;
+      setView(route.view);
+      setTimerSubject(route.timerSubject);
+      if (route.historyFilters) {
+        setFilterSubject(route.historyFilters.subject);
+        setFilterConcentration(route.historyFilters.concentration);
+        setFilterStartDate(route.historyFilters.startDate);
+        setFilterEndDate(route.historyFilters.endDate);
+      }
+    };
+    const handlePopState = () => applyRoute(parseRoute(window.location.hash));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const startRevision = (topic: string) => {
+    setTimerSubject(topic);
+    setView(ViewState.TIMER);
+  };
+
+  const recordSession = (sessionData: Omit<StudySession, 'id'>) => {
     const newSession: StudySession = {
-      ...sessionData,
+      ...linkToSyllabus(sessionData),
       id: crypto.randomUUID(),
     };
-    setSessions(prev => [newSession, ...prev]);
+    setSessions(prev => {
+      // Interval blocks can be reported twice when a catch-up races a re-render
+      const isDuplicateBlock = newSession.intervalGroupId !== undefined && prev.some(s =>
+        s.intervalGroupId === newSession.intervalGroupId && s.cycle === newSession.cycle
+      );
+      return isDuplicateBlock ? prev : [newSession, ...prev];
+    });
+  };
+
+  const addSession = (sessionData: Omit<StudySession, 'id'>) => {
+    recordSession(sessionData);
     setView(ViewState.DASHBOARD);
   };
 
+  const handleSaveSession = (sessionData: Omit<StudySession, 'id'>) => {
+    if (editingSession && editingSession !== 'NEW') {
+      const id = editingSession.id;
+      setSessions(prev => prev.map(s => s.id === id ? { ...linkToSyllabus(sessionData), id } : s));
+    } else {
+      recordSession(sessionData);
+    }
+    setEditingSession(null);
+  };
+
+  const handleDeleteSession = (session: StudySession) => {
+    if (!window.confirm(`Delete the ${session.subject} session from ${new Date(session.startTime).toLocaleDateString()}?`)) return;
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+  };
+
+  const handleResumeRecovered = () => {
+    setView(ViewState.TIMER);
+  };
+
+  const handleFinishRecovered = () => {
+    setActiveTimer(prev => prev && finishTimer(prev));
+    setView(ViewState.TIMER);
+  };
+
+  const handleDiscardRecovered = () => {
+    if (!window.confirm("Discard the unfinished session? The time will not be logged.")) return;
+    setActiveTimer(null);
+    setTimerRecovered(false);
+  };
+
+  // Persist every transition so the session survives a reload
+  const lastSeenSavedRef = useRef(0);
+  const saveSeenTimer = (snapshot: ActiveTimerSnapshot) => {
+    const now = Date.now();
+    saveActiveTimer({ ...snapshot, lastSeenAt: now });
+    lastSeenSavedRef.current = now;
+  };
+  useEffect(() => {
+    if (activeTimer) saveSeenTimer(activeTimer);
+    else clearActiveTimer();
+  }, [activeTimer]);
+
+  const notifyTimer = (title: string, body: string) => {
+    if (timerAlerts.notifications) showTimerNotification(title, body);
+    if (timerAlerts.sound) playAlertSound();
+  };
+
+  // Walks interval runs across phase boundaries (including ones passed while
+  // the tab slept), records finished work blocks, alerts at milestones and
+  // checks for idleness. The ref keeps a tick from reading a stale snapshot.
+  const activeTimerRef = useRef(activeTimer);
+  activeTimerRef.current = activeTimer;
+  const lastActivityRef = useRef(Date.now());
+  // A session that was running when the tab was closed or killed went
+  // unattended from when it was last seen; the first check may offer to trim it
+  const restoredSinceRef = useRef(activeTimer?.status === 'RUNNING' ? activeTimer.lastSeenAt ?? null : null);
+  const alertedMilestonesRef = useRef(new Set<string>());
+
+  const checkActiveTimer = () => {
+    const current = activeTimerRef.current;
+    // Blocks recorded before saved sessions load would be replaced by the load
+    if (!current || storageStatus === 'LOADING') return;
+    const now = Date.now();
+
+    const milestone = getTimerMilestone(current);
+    if (milestone && milestone.at <= now && !alertedMilestonesRef.current.has(milestone.key)) {
+      alertedMilestonesRef.current.add(milestone.key);
+      if (now - milestone.at <= MILESTONE_GRACE_MS) notifyTimer(milestone.title, milestone.body);
+    }
+
+    const { snapshot: next, completedSessions } = advanceIntervalTimer(current, now);
+    if (next !== current) {
+      completedSessions.forEach(recordSession);
+      activeTimerRef.current = next;
+      setActiveTimer(next);
+    }
+    if (now - lastSeenSavedRef.current >= LAST_SEEN_INTERVAL_MS) saveSeenTimer(next);
+
+    const restoredSince = restoredSinceRef.current;
+    restoredSinceRef.current = null;
+    const since = restoredSince !== null ? Math.min(restoredSince, lastActivityRef.current) : lastActivityRef.current;
+    const idleMs = timerAlerts.idleMinutes * 60 * 1000;
+    if (idleMs > 0 && !idlePrompt && isIdleWatched(next) && now - since >= idleMs) {
+      setIdlePrompt({ since });
+      notifyTimer("Are you still studying?", `No activity since ${new Date(since).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Keep or remove the idle time.`);
+    }
+  };
+  const checkActiveTimerRef = useRef(checkActiveTimer);
+  checkActiveTimerRef.current = checkActiveTimer;
+
+  useEffect(() => {
+    if (activeTimer?.status !== 'RUNNING' || storageStatus === 'LOADING') return;
+    checkActiveTimerRef.current();
+    const timer = window.setInterval(() => checkActiveTimerRef.current(), 1000);
+    return () => clearInterval(timer);
+  }, [activeTimer?.status, storageStatus]);
+
+  // Any interaction counts as activity. Hiding or showing the tab does too,
+  // but only after the idle check, so a long absence is still caught on return.
+  useEffect(() => {
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const handleVisibility = () => {
+      checkActiveTimerRef.current();
+      markActive();
+      if (document.hidden) setActiveTimer(prev => prev && recordTabSwitch(prev));
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      events.forEach(name => window.removeEventListener(name, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  const handleKeepIdleTime = () => {
+    lastActivityRef.current = Date.now();
+    setIdlePrompt(null);
+  };
+
+  const handleTrimIdleTime = () => {
+    // A block that ended meanwhile was already recorded; breaks are never trimmed
+    if (idlePrompt) setActiveTimer(prev => prev && isIdleWatched(prev) ? trimIdleTime(prev, idlePrompt.since) : prev);
+    lastActivityRef.current = Date.now();
+    setIdlePrompt(null);
+  };
+
+  const handleTimerAlertsChange = (next: TimerAlertSettings) => {
+    saveTimerAlerts(next);
+    setTimerAlerts(next);
+  };
+
+  const refreshProfiles = () => setProfiles(loadProfiles().profiles);
+
+  // Switching reloads the page into the other profile's data
+  const handleSwitchProfile = (id: string) => {
+    if (activeTimer && !window.confirm(`The ${activeTimer.subject || 'General Study'} timer keeps running in ${activeProfile.name} while you are away. Switch profile?`)) return;
+    switchProfile(id);
+  };
+
+  const handleCreateProfile = async (name: string, pin: string | null) => {
+    const profile = createProfile(name);
+    if (pin) await setProfilePin(profile.id, pin);
+    refreshProfiles();
+    if (window.confirm(`Profile "${profile.name}" created. Switch to it now?`)) handleSwitchProfile(profile.id);
+  };
+
+  const handleRenameProfile = (name: string) => {
+    renameProfile(activeProfileId, name);
+    refreshProfiles();
+  };
+
+  const handleSetProfilePin = async (pin: string | null) => {
+    if (pin === null && !window.confirm(`Remove the PIN? Anyone using this device will be able to open ${activeProfile.name}.`)) return;
+    await setProfilePin(activeProfileId, pin);
+    // Setting a PIN shouldn't lock out the person who just set it
+    if (pin) markProfileUnlocked(activeProfileId);
+    refreshProfiles();
+  };
+
+  const handleDeleteProfile = async (profile: StudyProfile) => {
+    if (profile.pinHash) {
+      const pin = window.prompt(`Enter the PIN for ${profile.name} to delete it.`);
+      if (pin === null) return;
+      if (!(await verifyProfilePin(profile, pin))) {
+        alert("Wrong PIN.");
+        return;
+      }
+    }
+    if (!window.confirm(`Delete ${profile.name} with all of its sessions, MCQ logs, plan and settings? This cannot be undone.`)) return;
+    try {
+      await deleteProfile(profile.id);
+    } catch (error) {
+      console.error("Failed to delete profile", error);
+      alert(error instanceof Error ? error.message : "Failed to delete the profile.");
+    }
+    refreshProfiles();
+  };
+
+  const aiProvider = useMemo(() => createAIProvider(aiSettings), [aiSettings]);
+
+  const handleSaveAISettings = (next: AISettings) => {
+    saveAISettings(next);
+    setAISettings(next);
+    alert("AI provider saved.");
+  };
+
+  const studyAnalytics = useMemo(
+    () => computeStudyAnalytics(sessions, mcqLogs, SYLLABUS_INDEX),
+    [sessions, mcqLogs]
+  );
+
+  const generateCoachReport = async () => {
+    const latest = coachReports[0];
+    const facts = [...formatFindingsForPrompt(studyAnalytics), ...(latest ? describePreviousReport(latest) : [])];
+    const content = await aiProvider.generateCoachReport(sessions, facts);
+    const report = createCoachReport(content, getReportMetrics(sessions, mcqLogs), aiProvider.label);
+    setCoachReports(prev => [report, ...prev]);
+    setSelectedReportId(report.id);
+  };
+
+  // The offline provider never needs a connection, so nothing is queued for it
+  const needsConnection = () => !navigator.onLine && aiProvider.id !== 'OFFLINE';
+
+  const queueCoachReport = () => {
+    setOutbox(prev => hasPendingReport(prev) ? prev : [...prev, createReportOutboxEntry()]);
+  };
+
   const handleGetInsights = async () => {
+    setInsightError(null);
+    if (needsConnection()) {
+      queueCoachReport();
+      return;
+    }
     setLoadingInsight(true);
-    const result = await generateStudyInsights(sessions);
-    setInsight(result);
-    setLoadingInsight(false);
+    try {
+      await generateCoachReport();
+    } catch (error) {
+      console.error("Insights error:", error);
+      if (classifyAIError(error) === 'NETWORK') queueCoachReport();
+      else setInsightError(error instanceof AIProviderError ? error.message : "Could not generate insights at this time.");
+    } finally {
+      setLoadingInsight(false);
+    }
   };
 
-  const handleMCQUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleToggleActionItem = (reportId: string, itemId: string) => {
+    setCoachReports(prev => prev.map(r => r.id !== reportId ? r : {
+      ...r,
+      actionItems: r.actionItems.map(i => i.id === itemId ? { ...i, done: !i.done } : i),
+    }));
+  };
 
-    // 2MB limit check
-    if (file.size > 2 * 1024 * 1024) {
-      alert("File is too large. Please upload an image smaller than 2MB.");
+  const handleDeleteCoachReport = (report: CoachReport) => {
+    if (!window.confirm(`Delete the coach report from ${new Date(report.createdAt).toLocaleDateString()}?`)) return;
+    setCoachReports(prev => prev.filter(r => r.id !== report.id));
+    setSelectedReportId(null);
+  };
+
+  const updateConversation = (id: string, update: (c: CoachConversation) => CoachConversation) => {
+    setConversations(prev => prev.map(c => c.id === id ? update(c) : c).sort((a, b) => b.updatedAt - a.updatedAt));
+  };
+
+  const handleSendChat = async (text: string) => {
+    const now = Date.now();
+    const question: CoachChatMessage = { id: crypto.randomUUID(), role: 'user', content: text, createdAt: now };
+    const existing = conversations.find(c => c.id === activeConversationId);
+    const conversation: CoachConversation = existing
+      ? { ...existing, updatedAt: now, messages: [...existing.messages, question] }
+      : { id: crypto.randomUUID(), title: text.length > 40 ? `${text.slice(0, 40)}…` : text, createdAt: now, updatedAt: now, messages: [question] };
+
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+    setActiveConversationId(conversation.id);
+    setChatSending(true);
+    setChatError(null);
+    try {
+      // Rebuilt per message so answers always reflect the latest data
+      const context = buildCoachContext({ sessions, mcqLogs, studyPlan, goals, exams, analytics: studyAnalytics });
+      const reply = await aiProvider.chat(conversation.messages.map(m => ({ role: m.role, content: m.content })), context);
+      const answer: CoachChatMessage = { id: crypto.randomUUID(), role: 'assistant', content: reply, createdAt: Date.now() };
+      updateConversation(conversation.id, c => ({ ...c, updatedAt: answer.createdAt, messages: [...c.messages, answer] }));
+    } catch (error) {
+      console.error("Coach chat error:", error);
+      setChatError(error instanceof AIProviderError ? error.message : "The coach could not answer right now.");
+    } finally {
+      setChatSending(false);
+    }
+  };
+
+  const handleSelectConversation = (id: string | null) => {
+    setActiveConversationId(id);
+    setChatError(null);
+  };
+
+  const handleDeleteConversation = (conversation: CoachConversation) => {
+    if (!window.confirm(`Delete the conversation "${conversation.title}"?`)) return;
+    setConversations(prev => prev.filter(c => c.id !== conversation.id));
+    handleSelectConversation(null);
+  };
+
+  const handleClearConversations = () => {
+    if (!window.confirm(`Delete all ${conversations.length} coach conversations?`)) return;
+    setConversations([]);
+    handleSelectConversation(null);
+  };
+
+  const handleAddMCQLog = (logData: Omit<MCQLog, 'id'>) => {
+    const newLog: MCQLog = { ...logData, id: crypto.randomUUID() };
+    setMcqLogs(prev => [newLog, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    setShowMCQForm(false);
+  };
+
+  const handleSaveMockTest = (testData: Omit<MockTest, 'id'>) => {
+    if (editingMockTest && editingMockTest !== 'NEW') {
+      const id = editingMockTest.id;
+      setMockTests(prev => prev.map(t => t.id === id ? { ...testData, id } : t).sort((a, b) => b.date - a.date));
+    } else {
+      setMockTests(prev => [{ ...testData, id: crypto.randomUUID() }, ...prev].sort((a, b) => b.date - a.date));
+    }
+    setEditingMockTest(null);
+  };
+
+  const handleDeleteMockTest = (test: MockTest) => {
+    if (!window.confirm(`Delete "${test.name}" from ${new Date(test.date).toLocaleDateString()}?`)) return;
+    setMockTests(prev => prev.filter(t => t.id !== test.id));
+  };
+
+  const updateProofItem = (id: string, update: (item: ProofReviewItem) => ProofReviewItem) => {
+    setProofQueue(prev => prev.map(i => i.id === id ? update(i) : i));
+  };
+
+  const removeProofItem = (item: ProofReviewItem) => {
+    URL.revokeObjectURL(item.previewUrl);
+    setProofQueue(prev => prev.filter(i => i.id !== item.id));
+  };
+
+  // Hashes of images already in the queue, so a batch can't repeat one of them
+  const claimedProofHashes = (except?: ProofReviewItem) =>
+    new Set(proofQueue.filter(i => i !== except && i.proofHash).map(i => i.proofHash!));
+
+  const queueProofs = (files: File[]) => {
+    setOutbox(prev => [...prev, ...files.map(file => createProofOutboxEntry(file))]);
+  };
+
+  // A check that lost its connection leaves the review queue for the outbox
+  const handleProofResult = (item: ProofReviewItem, result: ProofCheckResult) => {
+    if (result.status === 'FAILED' && result.kind === 'NETWORK') {
+      removeProofItem(item);
+      queueProofs([item.file]);
+    } else {
+      updateProofItem(item.id, i => applyProofResult(i, result));
+    }
+  };
+
+  const handleMCQUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (mcqImageInputRef.current) mcqImageInputRef.current.value = '';
+    if (files.length === 0) return;
+    if (needsConnection()) {
+      queueProofs(files);
       return;
     }
 
-    setVerifyingMCQ(true);
-    
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64Str = e.target?.result as string;
-      
-      try {
-        const result = await verifyMCQProof(base64Str);
-        
-        if (result.verified) {
-          const newLog: MCQLog = {
-            id: crypto.randomUUID(),
-            timestamp: Date.now(),
-            count: result.count,
-            verified: true,
-            feedback: result.feedback
+    const items: ProofReviewItem[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'CHECKING',
+      aiCount: null,
+      count: 0,
+      subject: '',
+      feedback: '',
+    }));
+    const claimed = claimedProofHashes();
+    setProofQueue(prev => [...prev, ...items]);
+    await checkMCQProofs(files, aiProvider, mcqLogs, claimed, (index, result) => handleProofResult(items[index], result));
+  };
+
+  const handleRetryProof = async (item: ProofReviewItem) => {
+    updateProofItem(item.id, i => ({ ...i, status: 'CHECKING', feedback: '' }));
+    const result = await checkMCQProof(item.file, aiProvider, mcqLogs, claimedProofHashes(item));
+    handleProofResult(item, result);
+  };
+
+  // Sends queued requests in order and stops at the first one that still
+  // can't reach the network; the rest wait for the next attempt.
+  const flushingRef = useRef(false);
+  const flushOutbox = async () => {
+    if (flushingRef.current || outbox.length === 0 || !navigator.onLine || aiProvider.id === 'OFFLINE') return;
+    flushingRef.current = true;
+    const claimed = claimedProofHashes();
+    const settle = (entry: OutboxEntry) => setOutbox(prev => prev.filter(e => e.id !== entry.id));
+    const postpone = (entry: OutboxEntry, message: string) => setOutbox(prev => prev.map(e =>
+      e.id === entry.id ? { ...e, attempts: e.attempts + 1, lastError: message } : e
+    ));
+    try {
+      for (const entry of outbox) {
+        if (entry.kind === 'MCQ_PROOF') {
+          const file = outboxEntryToFile(entry);
+          const result = await checkMCQProof(file, aiProvider, mcqLogs, claimed);
+          if (result.status === 'FAILED' && result.kind === 'NETWORK') {
+            postpone(entry, result.message);
+            break;
+          }
+          const item: ProofReviewItem = {
+            id: entry.id, file, previewUrl: URL.createObjectURL(file),
+            status: 'CHECKING', aiCount: null, count: 0, subject: '', feedback: '',
           };
-          setMcqLogs(prev => [newLog, ...prev]);
-          alert(result.feedback);
+          setProofQueue(prev => [...prev, applyProofResult(item, result)]);
+          settle(entry);
         } else {
-          alert(`Verification Failed: ${result.feedback}`);
+          try {
+            await generateCoachReport();
+            settle(entry);
+          } catch (error) {
+            console.error("Queued insights error:", error);
+            if (classifyAIError(error) === 'NETWORK') {
+              postpone(entry, error instanceof Error ? error.message : "No connection.");
+              break;
+            }
+            settle(entry);
+            setInsightError(error instanceof AIProviderError ? error.message : "Could not generate insights at this time.");
+          }
         }
-      } catch (error) {
-        alert("An error occurred during verification.");
-      } finally {
-        setVerifyingMCQ(false);
-        if (mcqImageInputRef.current) mcqImageInputRef.current.value = '';
       }
-    };
-    reader.readAsDataURL(file);
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  // Effects below always run the latest flush, with current data and provider
+  const flushOutboxRef = useRef(flushOutbox);
+  flushOutboxRef.current = flushOutbox;
+
+  useEffect(() => {
+    if (storageStatus !== 'READY' || outbox.length === 0 || !isOnline) return;
+    flushOutboxRef.current();
+    const timer = setInterval(() => flushOutboxRef.current(), OUTBOX_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [storageStatus, outbox.length > 0, isOnline]);
+
+  const handleDiscardOutbox = () => {
+    if (!window.confirm(`Discard ${describeOutbox(outbox)} waiting to be sent?`)) return;
+    setOutbox([]);
+  };
+
+  const handleConfirmProofs = (items: ProofReviewItem[]) => {
+    const now = Date.now();
+    const newLogs = items.map(item => proofItemToLog(item, now));
+    setMcqLogs(prev => [...newLogs, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    items.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    const ids = new Set(items.map(i => i.id));
+    setProofQueue(prev => prev.filter(i => !ids.has(i.id)));
   };
 
   const resetFilters = () => {
@@ -203,12 +812,16 @@ const App: React.FC = () => {
     const data = {
       sessions,
       studyPlan,
-      mcqLogs
+      mcqLogs,
+      mockTests,
+      coachReports,
+      goals,
+      exams
     };
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(data, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `neet_pg_tracker_backup_${new Date().toISOString().split('T')[0]}.json`);
+    downloadAnchorNode.setAttribute("download", `neet_pg_tracker_backup_${profileFileSlug(activeProfile)}_${new Date().toISOString().split('T')[0]}.json`);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
@@ -222,33 +835,61 @@ const App: React.FC = () => {
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const parsedData = JSON.parse(content);
-
-        if (Array.isArray(parsedData)) {
-          // Legacy support
-          if (sessions.length > 0 && !window.confirm("Replace history?")) return;
-          setSessions(parsedData);
-        } else if (parsedData.sessions) {
-           if ((sessions.length > 0 || mcqLogs.length > 0) && !window.confirm("Replace all data (Sessions, MCQs, Plan)?")) return;
-           
-           if (Array.isArray(parsedData.sessions)) setSessions(parsedData.sessions);
-           if (Array.isArray(parsedData.studyPlan)) setStudyPlan(parsedData.studyPlan);
-           if (Array.isArray(parsedData.mcqLogs)) setMcqLogs(parsedData.mcqLogs);
-           
-           alert(`Import Successful!`);
-        } else {
-          alert("Invalid file format.");
-        }
-        setView(ViewState.HISTORY);
+        const validation = validateBackup(JSON.parse(content));
+        setPendingImport({ fileName: file.name, validation, allowReplace: true });
       } catch (error) {
         console.error("Import error:", error);
-        alert("Failed to parse the file.");
+        alert(error instanceof BackupFormatError ? error.message : "Failed to parse the file.");
       }
       if (fileInputRef.current) fileInputRef.current.value = '';
     };
     reader.readAsText(file);
   };
 
+  const handleExportCSV = (kind: CsvRecordKind) => {
+    const date = new Date().toISOString().split('T')[0];
+    if (kind === 'sessions') {
+      downloadTextFile(sessionsToCSV(sessions), `neet_pg_sessions_${profileFileSlug(activeProfile)}_${date}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadTextFile(mcqLogsToCSV(mcqLogs), `neet_pg_mcq_logs_${profileFileSlug(activeProfile)}_${date}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  const handleImportCSV = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const table = parseCSV(e.target?.result as string);
+      if (table.length < 2) {
+        alert("The CSV file needs a header row and at least one data row.");
+      } else {
+        setPendingCsv({ fileName: file.name, table });
+      }
+      if (csvInputRef.current) csvInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  // A single CSV only carries one record type, so it can be merged but never replace everything
+  const handleCsvMapped = (validation: BackupValidation) => {
+    setPendingImport({ fileName: pendingCsv!.fileName, validation, allowReplace: false });
+    setPendingCsv(null);
+  };
+
+  const handleApplyImport = (result: BackupData) => {
+    setSessions(result.sessions);
+    setMcqLogs(result.mcqLogs);
+    setMockTests(result.mockTests);
+    setCoachReports(result.coachReports);
+    setStudyPlan(result.studyPlan);
+    if (result.goals) setGoals(result.goals);
+    if (result.exams) setExams(result.exams);
+    setPendingImport(null);
+    setView(ViewState.HISTORY);
+  };
+
   const handleSavePlan = () => {
     const lines = planInput.split('\n')
       .map(l => l.trim())
@@ -257,34 +898,56 @@ const App: React.FC = () => {
     alert(`Saved ${lines.length} items to your Study Schedule.`);
   };
 
+  const handleSaveGoals = (next: GoalSettings) => {
+    setGoals(next);
+    alert("Goals saved.");
+  };
+
+  const handleSaveExams = (next: ExamSettings) => {
+    setExams(next);
+    alert("Exam dates saved.");
+  };
+
+  const handleToggleRestDay = (day: string) => {
+    setGoals(prev => ({
+      ...prev,
+      restDays: prev.restDays.includes(day) ? prev.restDays.filter(d => d !== day) : [...prev.restDays, day].sort(),
+    }));
+  };
+
   const handleClearData = () => {
-    if (window.confirm("Delete ALL data (History, MCQs, Settings)?")) {
+    if (window.confirm(`Delete ALL of ${activeProfile.name}'s data (history, MCQs, grand tests, coach reports, coach conversations, queued AI requests, study plan, goals and exam dates)? Other profiles are not affected.`)) {
       setSessions([]);
       setMcqLogs([]);
+      setMockTests([]);
+      setCoachReports([]);
+      setConversations([]);
+      setOutbox([]);
+      // Saved to the meta store by the effects above
+      setStudyPlan(DEFAULT_NEET_PG_SUBJECTS);
+      setGoals(DEFAULT_GOALS);
+      setExams(DEFAULT_EXAM_SETTINGS);
       alert("All data has been cleared.");
     }
   };
 
-  // Helper to get local date string YYYY-MM-DD
-  const getLocalDateString = (timestamp: number) => {
-    const d = new Date(timestamp);
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
+  // History filters on the syllabus subject, so topic-level sessions roll up
+  const uniqueSubjects = Array.from(new Set(sessions.map(s => getSessionSubjectGroup(SYLLABUS_INDEX, s)))).sort();
 
-  const uniqueSubjects = Array.from(new Set(sessions.map(s => s.subject))).sort();
+  const mcqSubjectSuggestions = Array.from(new Set([...DEFAULT_NEET_PG_SUBJECTS, ...mcqLogs.map(l => l.subject).filter((s): s is string => !!s)]));
+
+  // Study Plan lines first, then every syllabus path
+  const subjectSuggestions = Array.from(new Set([...studyPlan, ...SYLLABUS_INDEX.entries.map(e => e.label)]));
 
   const filteredSessions = sessions.filter(session => {
     const dateStr = getLocalDateString(session.startTime);
 
-    if (filterSubject !== 'ALL' && session.subject !== filterSubject) return false;
+    if (filterSubject !== 'ALL' && getSessionSubjectGroup(SYLLABUS_INDEX, session) !== filterSubject) return false;
     if (filterConcentration !== 'ALL' && String(session.concentration) !== filterConcentration) return false;
     if (filterStartDate && dateStr < filterStartDate) return false;
     if (filterEndDate && dateStr > filterEndDate) return false;
     return true;
-  });
+  }).sort((a, b) => b.startTime - a.startTime); // backfilled sessions land in date order
 
   // Calculate MCQ Stats
   const getDailyMCQCount = () => {
@@ -316,9 +979,13 @@ const App: React.FC = () => {
       case ViewState.TIMER:
         return (
           <Timer 
+            snapshot={activeTimer}
+            onSnapshotChange={setActiveTimer}
             onSessionComplete={addSession} 
+            onBlockComplete={recordSession}
             onCancel={() => setView(ViewState.DASHBOARD)} 
-            availableSubjects={studyPlan}
+            availableSubjects={subjectSuggestions}
+            initialSubject={timerSubject}
           />
         );
       
@@ -335,15 +1002,31 @@ const App: React.FC = () => {
                  <Button onClick={() => setView(ViewState.TIMER)} size="lg">Start Revision</Button>
                </div>
             ) : (
-              <Dashboard sessions={sessions} />
+              <div className="space-y-8">
+                <ExamPlanner
+                  exams={exams}
+                  sessions={sessions}
+                  syllabusIndex={SYLLABUS_INDEX}
+                  dailyGoalHours={goals.dailyStudyHours}
+                />
+                <GoalsPanel
+                  goals={goals}
+                  sessions={sessions}
+                  mcqLogs={mcqLogs}
+                  syllabusIndex={SYLLABUS_INDEX}
+                  onToggleRestDay={handleToggleRestDay}
+                />
+                <RevisionQueue topics={studyPlan} sessions={sessions} onStartRevision={startRevision} />
+                <Dashboard sessions={sessions} mcqLogs={mcqLogs} syllabusIndex={SYLLABUS_INDEX} />
+              </div>
             )}
           </>
         );
       
       case ViewState.MCQ:
         const todayCount = getDailyMCQCount();
-        const goal = 100;
-        const progress = Math.min(100, Math.round((todayCount / goal) * 100));
+        const goal = goals.dailyMCQs;
+        const progress = goal > 0 ? Math.min(100, Math.round((todayCount / goal) * 100)) : 0;
         
         return (
           <div className="animate-fade-in space-y-8">
@@ -356,11 +1039,13 @@ const App: React.FC = () => {
                   </div>
                   
                   <h2 className="text-2xl font-bold text-white mb-2">Daily MCQ Goal</h2>
-                  <p className="text-slate-400 mb-6">Target: 100 MCQs per day</p>
+                  <p className="text-slate-400 mb-6">
+                    {goal > 0 ? `Target: ${goal} MCQs per day` : 'No daily target set. Add one in Settings.'}
+                  </p>
                   
                   <div className="flex items-end gap-4 mb-4">
                     <span className="text-6xl font-bold text-brand-400">{todayCount}</span>
-                    <span className="text-xl text-slate-500 mb-2">/ {goal} solved</span>
+                    <span className="text-xl text-slate-500 mb-2">{goal > 0 ? `/ ${goal} solved` : 'solved today'}</span>
                   </div>
                   
                   <div className="w-full bg-slate-700 h-4 rounded-full overflow-hidden">
@@ -375,11 +1060,13 @@ const App: React.FC = () => {
                {/* Upload Card */}
                <div className="flex-1 bg-slate-800 p-8 rounded-2xl border border-slate-700 flex flex-col justify-center items-center text-center">
                   <div className="mb-4 p-4 bg-slate-700/50 rounded-full">
-                    {verifyingMCQ ? <Loader2 className="w-8 h-8 text-brand-400 animate-spin" /> : <Camera className="w-8 h-8 text-brand-400" />}
+                    {proofQueue.some(i => i.status === 'CHECKING')
+                      ? <Loader2 className="w-8 h-8 text-brand-400 animate-spin" />
+                      : <Camera className="w-8 h-8 text-brand-400" />}
                   </div>
-                  <h3 className="text-xl font-semibold text-white mb-2">Verify Progress</h3>
+                  <h3 className="text-xl font-semibold text-white mb-2">Log Progress</h3>
                   <p className="text-slate-400 text-sm mb-6 max-w-xs">
-                    Take a photo of your scorecard or upload a screenshot. AI will verify your daily count.
+                    Upload one or more scorecards for AI verification, or log a QBank block by hand with your score.
                   </p>
                   
                   <input 
@@ -387,19 +1074,37 @@ const App: React.FC = () => {
                     ref={mcqImageInputRef}
                     onChange={handleMCQUpload}
                     accept="image/*"
+                    multiple
                     className="hidden"
-                    disabled={verifyingMCQ}
                   />
                   <Button 
                     onClick={() => mcqImageInputRef.current?.click()} 
-                    isLoading={verifyingMCQ}
                     className="w-full max-w-xs"
                   >
-                    {verifyingMCQ ? 'Analyzing...' : 'Take Photo / Upload'}
+                    Take Photo / Upload
+                  </Button>
+                  <Button
+                    onClick={() => setShowMCQForm(true)}
+                    variant="ghost"
+                    className="w-full max-w-xs mt-2"
+                  >
+                    <Plus className="w-4 h-4 mr-2" /> Log Block Manually
                   </Button>
                </div>
              </div>
 
+             {proofQueue.length > 0 && (
+               <ProofReviewQueue
+                 items={proofQueue}
+                 subjects={mcqSubjectSuggestions}
+                 onUpdate={(id, patch) => updateProofItem(id, i => ({ ...i, ...patch }))}
+                 onConfirm={item => handleConfirmProofs([item])}
+                 onConfirmAllVerified={() => handleConfirmProofs(proofQueue.filter(i => i.status === 'VERIFIED' && i.count > 0))}
+                 onDiscard={removeProofItem}
+                 onRetry={handleRetryProof}
+               />
+             )}
+
              {/* Chart & Recent Logs */}
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
@@ -417,7 +1122,7 @@ const App: React.FC = () => {
                         />
                         <Bar dataKey="count" name="MCQs" radius={[4, 4, 0, 0]}>
                            {getWeeklyMCQData().map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={entry.count >= 100 ? '#22c55e' : '#3b82f6'} />
+                              <Cell key={`cell-${index}`} fill={goal > 0 && entry.count >= goal ? '#22c55e' : '#3b82f6'} />
                             ))}
                         </Bar>
                       </BarChart>
@@ -426,18 +1131,29 @@ const App: React.FC = () => {
                </div>
 
                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 overflow-hidden flex flex-col">
-                  <h3 className="text-lg font-semibold text-white mb-4">Recent Verifications</h3>
+                  <h3 className="text-lg font-semibold text-white mb-4">Recent Logs</h3>
                   <div className="overflow-y-auto flex-1 pr-2 space-y-3 max-h-64 scrollbar-thin">
                     {mcqLogs.length === 0 ? (
-                      <p className="text-slate-500 text-center py-8">No proofs uploaded yet.</p>
+                      <p className="text-slate-500 text-center py-8">No MCQs logged yet.</p>
                     ) : (
                       mcqLogs.slice(0, 10).map(log => (
                         <div key={log.id} className="bg-slate-900/50 p-3 rounded-lg flex justify-between items-center border border-slate-800">
-                           <div>
-                             <p className="text-sm font-medium text-white">{new Date(log.timestamp).toLocaleDateString()} {new Date(log.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
-                             <p className="text-xs text-slate-400">{log.feedback}</p>
+                           <div className="min-w-0">
+                             <p className="text-sm font-medium text-white">
+                               {log.subject && <span>{log.subject} • </span>}
+                               {new Date(log.timestamp).toLocaleDateString()} {new Date(log.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                             </p>
+                             <p className="text-xs text-slate-400 truncate">
+                               {log.source && <span>{log.source} • </span>}
+                               {hasScore(log) ? `${log.correct}/${log.count} correct${log.skipped ? `, ${log.skipped} skipped` : ''}${log.timeTakenMinutes ? ` in ${log.timeTakenMinutes} min` : ''}` : log.feedback}
+                             </p>
                            </div>
-                           <div className="flex items-center gap-2">
+                           <div className="flex items-center gap-2 shrink-0 ml-2">
+                             {log.verified ? (
+                               <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-500/20 text-green-300 font-medium">AI VERIFIED</span>
+                             ) : (
+                               <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-400 font-medium">MANUAL</span>
+                             )}
                              <span className="text-brand-400 font-bold">+{log.count}</span>
                              <Trophy className="w-4 h-4 text-yellow-500" />
                            </div>
@@ -447,6 +1163,17 @@ const App: React.FC = () => {
                   </div>
                </div>
              </div>
+
+             <MCQAccuracyPanel logs={mcqLogs} />
+
+             {showMCQForm && (
+               <MCQLogForm
+                 subjects={mcqSubjectSuggestions}
+                 recentSources={Array.from(new Set(mcqLogs.map(l => l.source).filter((s): s is string => !!s)))}
+                 onSave={handleAddMCQLog}
+                 onClose={() => setShowMCQForm(false)}
+               />
+             )}
           </div>
         );
 
@@ -455,8 +1182,21 @@ const App: React.FC = () => {
           <div className="space-y-4 animate-fade-in">
              <div className="flex justify-between items-end mb-2">
                <h2 className="text-2xl font-bold text-white">Revision History</h2>
+               <Button size="sm" onClick={() => setEditingSession('NEW')}>
+                 <Plus className="w-4 h-4 mr-2" /> Add Session
+               </Button>
              </div>
 
+             {editingSession && (
+               <SessionForm
+                 session={editingSession === 'NEW' ? undefined : editingSession}
+                 sessions={sessions}
+                 availableSubjects={subjectSuggestions}
+                 onSave={handleSaveSession}
+                 onClose={() => setEditingSession(null)}
+               />
+             )}
+
              {/* Filters */}
              {sessions.length > 0 && (
                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 mb-6">
@@ -479,6 +1219,10 @@ const App: React.FC = () => {
                        >
                            <option value="ALL">All Subjects</option>
                            {uniqueSubjects.map(s => <option key={s} value={s}>{s}</option>)}
+                           {/* A linked subject with no sessions on this device */}
+                           {filterSubject !== 'ALL' && !uniqueSubjects.includes(filterSubject) && (
+                             <option value={filterSubject}>{filterSubject}</option>
+                           )}
                        </select>
                    </div>
                    <div>
@@ -527,18 +1271,48 @@ const App: React.FC = () => {
                    <div key={session.id} className="bg-slate-800 p-4 rounded-xl border border-slate-700 flex justify-between items-center transition-all hover:border-slate-600">
                       <div>
                         <h3 className="font-semibold text-white">{session.subject}</h3>
+                        {resolveSessionNode(SYLLABUS_INDEX, session) && (
+                          <p className="text-xs text-brand-300">
+                            {resolveSessionNode(SYLLABUS_INDEX, session)!.path.slice(0, 2).map(n => n.title).join(' › ')}
+                          </p>
+                        )}
                         <p className="text-sm text-slate-400">
                           {new Date(session.startTime).toLocaleDateString()} • {new Date(session.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                         </p>
                         {session.notes && <p className="text-sm text-slate-500 mt-1 italic">"{session.notes}"</p>}
                       </div>
-                      <div className="text-right">
-                        <div className="text-lg font-bold text-brand-400">
-                          {Math.floor(session.duration / 60)}m {session.duration % 60}s
+                      <div className="flex items-center gap-4">
+                        <div className="text-right">
+                          <div className="text-lg font-bold text-brand-400">
+                            {Math.floor(session.duration / 60)}m {session.duration % 60}s
+                          </div>
+                          {isDistractionTracked(session) && (
+                            <div className="text-xs text-slate-500" title="Net focused time / time from start to end">
+                              of {Math.round(getGrossSeconds(session) / 60)}m gross
+                              {session.pauses?.length ? ` • ${session.pauses.length} ${session.pauses.length === 1 ? 'pause' : 'pauses'}` : ''}
+                              {session.tabSwitches ? ` • ${session.tabSwitches} tab ${session.tabSwitches === 1 ? 'switch' : 'switches'}` : ''}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-1 justify-end text-sm text-slate-300">
+                            <span className={`w-2 h-2 rounded-full ${session.concentration >= 4 ? 'bg-green-500' : session.concentration >= 3 ? 'bg-yellow-500' : 'bg-red-500'}`}></span>
+                            Focus: {session.concentration}/5
+                          </div>
                         </div>
-                        <div className="flex items-center gap-1 justify-end text-sm text-slate-300">
-                          <span className={`w-2 h-2 rounded-full ${session.concentration >= 4 ? 'bg-green-500' : session.concentration >= 3 ? 'bg-yellow-500' : 'bg-red-500'}`}></span>
-                          Focus: {session.concentration}/5
+                        <div className="flex flex-col gap-1">
+                          <button
+                            onClick={() => setEditingSession(session)}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+                            title="Edit session"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSession(session)}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-700 transition-colors"
+                            title="Delete session"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         </div>
                       </div>
                    </div>
@@ -548,24 +1322,65 @@ const App: React.FC = () => {
           </div>
         );
 
+      case ViewState.SYLLABUS:
+        return (
+          <SyllabusView
+            syllabus={DEFAULT_SYLLABUS}
+            index={SYLLABUS_INDEX}
+            sessions={sessions}
+            onStartTopic={startRevision}
+          />
+        );
+
+      case ViewState.MOCK_TESTS:
+        return (
+          <>
+            <MockTestsView
+              tests={mockTests}
+              sessions={sessions}
+              syllabusIndex={SYLLABUS_INDEX}
+              onAdd={() => setEditingMockTest('NEW')}
+              onEdit={setEditingMockTest}
+              onDelete={handleDeleteMockTest}
+            />
+            {editingMockTest && (
+              <MockTestForm
+                test={editingMockTest === 'NEW' ? undefined : editingMockTest}
+                subjects={DEFAULT_NEET_PG_SUBJECTS}
+                onSave={handleSaveMockTest}
+                onClose={() => setEditingMockTest(null)}
+              />
+            )}
+          </>
+        );
+
       case ViewState.INSIGHTS:
         return (
           <div className="max-w-3xl mx-auto animate-fade-in">
             <div className="flex justify-between items-center mb-8">
-              <h2 className="text-2xl font-bold text-white">AI NEET Coach</h2>
+              <div>
+                <h2 className="text-2xl font-bold text-white">AI NEET Coach</h2>
+                <p className="text-xs text-slate-500">Using {aiProvider.label} • change in Settings</p>
+              </div>
               <Button onClick={handleGetInsights} isLoading={loadingInsight} disabled={sessions.length === 0}>
-                {insight ? 'Refresh Analysis' : 'Analyze My Progress'}
+                {coachReports.length > 0 ? 'New Report' : 'Analyze My Progress'}
               </Button>
             </div>
             
-            {!insight && !loadingInsight && (
+            {coachReports.length === 0 && !loadingInsight && (
               <div className="text-center py-12 bg-slate-800/50 rounded-2xl border border-dashed border-slate-700">
                 <BrainCircuit className="w-16 h-16 text-slate-600 mx-auto mb-4" />
-                <p className="text-slate-400 mb-4">Let Gemini analyze your revision patterns and suggest improvements for high-yield topics.</p>
+                <p className="text-slate-400 mb-4">Let the AI coach analyze your revision patterns and suggest improvements for high-yield topics.</p>
                 <Button onClick={handleGetInsights} disabled={sessions.length === 0}>Generate Insights</Button>
               </div>
             )}
 
+            {insightError && !loadingInsight && (
+              <div className="mb-6 bg-red-500/10 border border-red-900/50 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" /> {insightError}
+              </div>
+            )}
+
             {loadingInsight && (
               <div className="space-y-4">
                 <div className="h-4 bg-slate-800 rounded animate-pulse w-3/4"></div>
@@ -574,11 +1389,35 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {insight && !loadingInsight && (
-               <div className="bg-slate-800 p-8 rounded-2xl border border-slate-700 prose prose-invert max-w-none">
-                  <ReactMarkdown>{insight}</ReactMarkdown>
-               </div>
+            {coachReports.length > 0 && !loadingInsight && (
+              <CoachReportView
+                reports={coachReports}
+                selectedId={selectedReportId}
+                onSelect={setSelectedReportId}
+                onToggleAction={handleToggleActionItem}
+                onDelete={handleDeleteCoachReport}
+              />
             )}
+
+            <div className="mt-8">
+              <CoachChat
+                conversations={conversations}
+                activeId={activeConversationId}
+                sending={chatSending}
+                error={chatError}
+                unavailableReason={aiProvider.id === 'OFFLINE'
+                  ? "Chat needs an AI model. Pick Gemini or a local model under AI Provider in Settings."
+                  : undefined}
+                onSelect={handleSelectConversation}
+                onSend={handleSendChat}
+                onDelete={handleDeleteConversation}
+                onClearAll={handleClearConversations}
+              />
+            </div>
+
+            <div className="mt-8">
+              <StudyAnalyticsPanel analytics={studyAnalytics} />
+            </div>
           </div>
         );
 
@@ -601,7 +1440,7 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="space-y-3">
-                  <label className="block text-sm font-medium text-slate-300">Topics List (one per line):</label>
+                  <label className="block text-sm font-medium text-slate-300">Topics List (one per line, as "Subject - Chapter - Topic"):</label>
                   <textarea 
                     value={planInput}
                     onChange={(e) => setPlanInput(e.target.value)}
@@ -609,7 +1448,10 @@ const App: React.FC = () => {
                     placeholder="Anatomy - Upper Limb&#10;Physiology - CNS&#10;Pathology - General&#10;Pharmacology - ANS..."
                   />
                   <div className="flex justify-between items-center">
-                     <span className="text-xs text-slate-500">{planInput ? planInput.split('\n').filter(x=>x.trim()).length : 0} topics found</span>
+                     <span className="text-xs text-slate-500">
+                       {planInput ? planInput.split('\n').filter(x=>x.trim()).length : 0} topics found
+                       {' '}• {planInput.split('\n').filter(x => findNodeByLabel(SYLLABUS_INDEX, x)).length} linked to the syllabus
+                     </span>
                      <Button onClick={handleSavePlan} size="sm">
                        <Save className="w-4 h-4 mr-2" /> Save Index
                      </Button>
@@ -618,6 +1460,24 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <ExamSettingsCard exams={exams} onSave={handleSaveExams} />
+
+            <AISettingsCard settings={aiSettings} onSave={handleSaveAISettings} />
+
+            <GoalSettingsCard goals={goals} subjects={DEFAULT_NEET_PG_SUBJECTS} onSave={handleSaveGoals} />
+
+            <TimerAlertsCard settings={timerAlerts} onChange={handleTimerAlertsChange} />
+
+            <ProfilesCard
+              profiles={profiles}
+              activeId={activeProfileId}
+              onCreate={handleCreateProfile}
+              onRename={handleRenameProfile}
+              onSetPin={handleSetProfilePin}
+              onSwitch={handleSwitchProfile}
+              onDelete={handleDeleteProfile}
+            />
+
             {/* Export Section */}
             <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
               <div className="p-6">
@@ -627,7 +1487,7 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Backup Data</h3>
-                    <p className="text-sm text-slate-400">Download your study history and schedule.</p>
+                    <p className="text-sm text-slate-400">Download {activeProfile.name}'s study history and schedule.</p>
                   </div>
                 </div>
                 <Button onClick={handleExportData} variant="secondary" className="w-full justify-center">
@@ -645,9 +1505,19 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Restore Data</h3>
-                    <p className="text-sm text-slate-400">Restore your history from a backup file.</p>
+                    <p className="text-sm text-slate-400">Merge or restore a backup file into {activeProfile.name}, with a preview before anything changes.</p>
                   </div>
                 </div>
+                {pendingImport && (
+                  <ImportDialog
+                    fileName={pendingImport.fileName}
+                    validation={pendingImport.validation}
+                    current={{ sessions, mcqLogs, mockTests, coachReports, studyPlan, goals, exams }}
+                    allowReplace={pendingImport.allowReplace}
+                    onApply={handleApplyImport}
+                    onClose={() => setPendingImport(null)}
+                  />
+                )}
                 <input 
                   type="file" 
                   ref={fileInputRef}
@@ -661,6 +1531,47 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Spreadsheet Section */}
+            <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+              <div className="p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-emerald-500/10 rounded-lg">
+                    <Sheet className="w-6 h-6 text-emerald-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">Spreadsheet (CSV)</h3>
+                    <p className="text-sm text-slate-400">Export for Google Sheets or Excel, or bring in logs kept elsewhere.</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <Button onClick={() => handleExportCSV('sessions')} variant="secondary" className="justify-center">
+                    Sessions CSV
+                  </Button>
+                  <Button onClick={() => handleExportCSV('mcqLogs')} variant="secondary" className="justify-center">
+                    MCQ Logs CSV
+                  </Button>
+                  <Button onClick={() => csvInputRef.current?.click()} variant="secondary" className="justify-center">
+                    Import CSV
+                  </Button>
+                </div>
+                <input
+                  type="file"
+                  ref={csvInputRef}
+                  onChange={handleImportCSV}
+                  className="hidden"
+                  accept=".csv,text/csv"
+                />
+                {pendingCsv && (
+                  <CsvImportDialog
+                    fileName={pendingCsv.fileName}
+                    table={pendingCsv.table}
+                    onContinue={handleCsvMapped}
+                    onClose={() => setPendingCsv(null)}
+                  />
+                )}
+              </div>
+            </div>
+
              {/* Danger Zone */}
              <div className="bg-slate-800 rounded-xl border border-red-900/30 overflow-hidden">
               <div className="p-6">
@@ -670,7 +1581,7 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Reset</h3>
-                    <p className="text-sm text-slate-400">Clear all data and start fresh.</p>
+                    <p className="text-sm text-slate-400">Clear all of {activeProfile.name}'s data and start fresh.</p>
                   </div>
                 </div>
                 <Button onClick={handleClearData} variant="danger" className="w-full justify-center">
@@ -719,6 +1630,22 @@ const App: React.FC = () => {
           <span className="hidden md:inline font-medium">Timer</span>
         </button>
 
+        <button 
+          onClick={() => setView(ViewState.SYLLABUS)}
+          className={`p-3 md:px-4 md:py-3 rounded-xl flex items-center gap-3 transition-colors ${view === ViewState.SYLLABUS ? 'bg-brand-600/10 text-brand-400' : 'text-slate-400 hover:text-white hover:bg-slate-900'}`}
+        >
+          <Library className="w-6 h-6 md:w-5 md:h-5" />
+          <span className="hidden md:inline font-medium">Syllabus</span>
+        </button>
+
+        <button 
+          onClick={() => setView(ViewState.MOCK_TESTS)}
+          className={`p-3 md:px-4 md:py-3 rounded-xl flex items-center gap-3 transition-colors ${view === ViewState.MOCK_TESTS ? 'bg-brand-600/10 text-brand-400' : 'text-slate-400 hover:text-white hover:bg-slate-900'}`}
+        >
+          <GraduationCap className="w-6 h-6 md:w-5 md:h-5" />
+          <span className="hidden md:inline font-medium">Grand Tests</span>
+        </button>
+
         <button 
           onClick={() => setView(ViewState.HISTORY)}
           className={`p-3 md:px-4 md:py-3 rounded-xl flex items-center gap-3 transition-colors ${view === ViewState.HISTORY ? 'bg-brand-600/10 text-brand-400' : 'text-slate-400 hover:text-white hover:bg-slate-900'}`}
@@ -754,19 +1681,105 @@ const App: React.FC = () => {
              {view === ViewState.MCQ && 'MCQ Tracker'}
              {view === ViewState.TIMER && 'Revision Session'}
              {view === ViewState.HISTORY && 'History'}
+             {view === ViewState.SYLLABUS && 'Syllabus'}
+             {view === ViewState.MOCK_TESTS && 'Grand Tests'}
              {view === ViewState.INSIGHTS && 'Analysis'}
              {view === ViewState.SETTINGS && 'Settings'}
            </h1>
            <div className="flex items-center gap-4">
-             {/* Could add user profile or settings here */}
-             <div className="w-8 h-8 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-xs font-bold text-slate-400">
-               Dr
-             </div>
+             {activeTimer && view !== ViewState.TIMER && !timerRecovered && (
+               <ActiveTimerIndicator snapshot={activeTimer} onOpen={() => setView(ViewState.TIMER)} />
+             )}
+             <ProfileSwitcher
+               profiles={profiles}
+               activeId={activeProfileId}
+               onSwitch={handleSwitchProfile}
+               onLock={lockProfile}
+               onManage={() => setView(ViewState.SETTINGS)}
+             />
            </div>
         </header>
 
         <div className="p-6 md:p-10 max-w-7xl mx-auto">
-          {renderContent()}
+          {storageError && (
+            <div className="mb-8 bg-red-500/10 p-4 rounded-xl border border-red-900/50 flex items-start gap-3 animate-fade-in">
+              <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <h3 className="font-semibold text-red-200">Storage problem</h3>
+                <p className="text-sm text-red-300">{storageError}</p>
+              </div>
+              {storageStatus === 'READY' && (
+                <button onClick={() => setStorageError(null)} className="text-red-300 hover:text-white transition-colors">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+          {applyUpdate && (
+            <div className="mb-8 bg-slate-800 p-4 rounded-xl border border-brand-500/40 flex items-center gap-3 animate-fade-in">
+              <RefreshCw className="w-5 h-5 text-brand-400 shrink-0" />
+              <div className="flex-1">
+                <h3 className="font-semibold text-white">New version available</h3>
+                <p className="text-sm text-slate-400">Reload to update. Your data stays on this device.</p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => setApplyUpdate(null)}>Later</Button>
+              <Button size="sm" onClick={applyUpdate}>Reload</Button>
+            </div>
+          )}
+          {outbox.length > 0 && (
+            <div className="mb-8 bg-slate-800 p-4 rounded-xl border border-slate-700 flex items-center gap-3 animate-fade-in">
+              <CloudOff className="w-5 h-5 text-amber-400 shrink-0" />
+              <div className="flex-1">
+                <h3 className="font-semibold text-white">{isOnline ? 'Queued AI requests' : "You're offline"}</h3>
+                <p className="text-sm text-slate-400">
+                  Waiting to send {describeOutbox(outbox)}
+                  {aiProvider.id === 'OFFLINE' ? '. Choose an online AI provider in Settings to send them.' : ', automatically once a connection is available.'}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={handleDiscardOutbox}>Discard</Button>
+              {isOnline && aiProvider.id !== 'OFFLINE' && (
+                <Button size="sm" variant="secondary" onClick={() => flushOutboxRef.current()}>Retry Now</Button>
+              )}
+            </div>
+          )}
+          {timerRecovered && activeTimer && view !== ViewState.TIMER && (
+            <div className="mb-8 bg-slate-800 p-4 rounded-xl border border-brand-500/40 flex flex-col md:flex-row md:items-center gap-4 animate-fade-in">
+              <div className="p-2 bg-brand-500/10 rounded-lg self-start md:self-center">
+                <RotateCcw className="w-6 h-6 text-brand-400" />
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-white">Unfinished session found</h3>
+                <p className="text-sm text-slate-400">
+                  {activeTimer.subject || 'Untitled session'} • started {new Date(activeTimer.startTime).toLocaleDateString()} {new Date(activeTimer.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                  {' '}• {activeTimer.interval
+                    ? `${activeTimer.interval.completedBlocks.length} interval blocks done`
+                    : `${Math.floor(getElapsedSeconds(activeTimer) / 60)}m ${activeTimer.status === 'PAUSED' ? 'focused (paused)' : activeTimer.status === 'FINISHED' ? 'focused (not saved)' : 'focused so far'}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={handleDiscardRecovered}>Discard</Button>
+                {activeTimer.status !== 'FINISHED' && !activeTimer.interval && (
+                  <Button size="sm" variant="secondary" onClick={handleFinishRecovered}>Finish Now</Button>
+                )}
+                <Button size="sm" onClick={handleResumeRecovered}>
+                  {activeTimer.status === 'FINISHED' ? 'Review & Save' : 'Resume'}
+                </Button>
+              </div>
+            </div>
+          )}
+          {idlePrompt && activeTimer && (
+            <IdlePromptDialog
+              idleSince={idlePrompt.since}
+              subject={activeTimer.subject}
+              onKeep={handleKeepIdleTime}
+              onTrim={handleTrimIdleTime}
+            />
+          )}
+          {storageStatus === 'LOADING' ? (
+            <div className="flex justify-center py-20">
+              <Loader2 className="w-8 h-8 text-brand-400 animate-spin" />
+            </div>
+          ) : renderContent()}
         </div>
       </main>
     </div>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Cpu, Save } from 'lucide-react';
+import { Button } from './Button';
+import { AISettings, getBuildApiKey } from '../services/aiProvider';
+import { AI_PROVIDER_OPTIONS } from '../services/ai';
+
+interface AISettingsCardProps {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+}
+
+export const AISettingsCard: React.FC<AISettingsCardProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+
+  const update = (patch: Partial<AISettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none";
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-cyan-500/10 rounded-lg">
+            <Cpu className="w-6 h-6 text-cyan-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">AI Provider</h3>
+            <p className="text-sm text-slate-400">Used by the AI Coach and MCQ proof checks. Stored on this device only, never in backups.</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {AI_PROVIDER_OPTIONS.map(option => (
+            <label
+              key={option.id}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                draft.provider === option.id ? 'border-brand-600/60 bg-brand-600/10' : 'border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="ai-provider"
+                checked={draft.provider === option.id}
+                onChange={() => update({ provider: option.id })}
+                className="mt-1 accent-brand-500"
+              />
+              <div>
+                <p className="text-sm font-medium text-white">{option.label}</p>
+                <p className="text-xs text-slate-400">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {draft.provider === 'GEMINI' && (
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Gemini API key</label>
+            <input
+              type="password"
+              value={draft.geminiApiKey}
+              onChange={e => update({ geminiApiKey: e.target.value })}
+              placeholder={getBuildApiKey() ? 'Using the key from the build' : 'Paste your key'}
+              className={inputClass}
+              autoComplete="off"
+            />
+          </div>
+        )}
+
+        {draft.provider === 'OPENAI_COMPATIBLE' && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Endpoint URL</label>
+              <input value={draft.openAIBaseUrl} onChange={e => update({ openAIBaseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Model</label>
+                <input value={draft.openAIModel} onChange={e => update({ openAIModel: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">API key (optional)</label>
+                <input type="password" value={draft.openAIApiKey} onChange={e => update({ openAIApiKey: e.target.value })} className={inputClass} autoComplete="off" />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">Proof checks need a vision-capable model. The server must allow requests from this page (CORS).</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={() => onSave(draft)} size="sm">
+            <Save className="w-4 h-4 mr-2" /> Save Provider
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Coffee, Pause, Timer as TimerIcon } from 'lucide-react';
+import { ActiveTimerSnapshot } from '../types';
+import { getElapsedSeconds, getPhaseRemainingSeconds } from '../services/timerStorage';
+
+interface ActiveTimerIndicatorProps {
+  snapshot: ActiveTimerSnapshot;
+  onOpen: () => void;
+}
+
+const formatClock = (totalSeconds: number) => {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+// Header pill shown on every other view while a session is open
+export const ActiveTimerIndicator: React.FC<ActiveTimerIndicatorProps> = ({ snapshot, onOpen }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const running = snapshot.status === 'RUNNING';
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running, snapshot]);
+
+  const interval = snapshot.interval;
+  const onBreak = !!interval && interval.phase !== 'WORK';
+  const seconds = interval ? getPhaseRemainingSeconds(snapshot, now) : getElapsedSeconds(snapshot, now);
+  let label = snapshot.status === 'FINISHED' ? 'Not saved' : running ? 'Focusing' : 'Paused';
+  if (interval && running) label = onBreak ? 'Break' : `Cycle ${interval.completedBlocks.length + 1}`;
+
+  return (
+    <button
+      onClick={onOpen}
+      title="Open the timer"
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+        running ? 'bg-brand-600/10 border-brand-500/40 text-brand-300 hover:bg-brand-600/20' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+      }`}
+    >
+      {running && !onBreak && <span className="w-2 h-2 rounded-full bg-brand-400 animate-pulse" />}
+      {onBreak ? <Coffee className="w-4 h-4 text-green-400" /> : running ? <TimerIcon className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      <span className="font-mono font-semibold">{formatClock(seconds)}</span>
+      <span className="hidden sm:inline max-w-[10rem] truncate text-xs opacity-80">
+        {label} • {snapshot.subject || 'General Study'}
+      </span>
+    </button>
+  );
+};
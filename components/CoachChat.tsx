@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Button } from './Button';
+import { CoachConversation } from '../types';
+
+interface CoachChatProps {
+  conversations: CoachConversation[]; // most recently updated first
+  activeId: string | null; // null starts a new conversation on the next message
+  sending: boolean;
+  error: string | null;
+  unavailableReason?: string; // set when the current provider cannot chat
+  onSelect: (id: string | null) => void;
+  onSend: (text: string) => void;
+  onDelete: (conversation: CoachConversation) => void;
+  onClearAll: () => void;
+}
+
+const SUGGESTIONS = [
+  'Why is my focus low in my weakest subject?',
+  'Plan my next 3 days',
+  'Which subjects should I revise this week?',
+];
+
+export const CoachChat: React.FC<CoachChatProps> = ({
+  conversations, activeId, sending, error, unavailableReason, onSelect, onSend, onDelete, onClearAll
+}) => {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const active = conversations.find(c => c.id === activeId) || null;
+  const messages = active?.messages || [];
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, sending]);
+
+  const send = (text: string) => {
+    if (!text.trim() || sending || unavailableReason) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 flex flex-col">
+      <div className="p-4 border-b border-slate-700 flex flex-wrap justify-between items-center gap-3">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-brand-400" /> Ask the Coach
+        </h3>
+        <div className="flex items-center gap-2">
+          {conversations.length > 0 && (
+            <select
+              value={activeId || ''}
+              onChange={e => onSelect(e.target.value || null)}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none max-w-[12rem]"
+            >
+              <option value="">New conversation</option>
+              {conversations.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+            </select>
+          )}
+          <button
+            onClick={() => onSelect(null)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+            title="New conversation"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          {active && (
+            <button
+              onClick={() => onDelete(active)}
+              className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+              title="Delete conversation"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          {conversations.length > 1 && (
+            <button onClick={onClearAll} className="text-xs text-slate-500 hover:text-red-400 px-2">
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4 max-h-[28rem] overflow-y-auto">
+        {messages.length === 0 && (
+          <div className="text-center py-6">
+            <p className="text-sm text-slate-400 mb-4">
+              Ask about your own data. Each question is sent with a summary of your sessions, MCQs, study plan and goals.
+            </p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => send(s)}
+                  disabled={sending || !!unavailableReason}
+                  className="text-xs px-3 py-1.5 rounded-full border border-slate-600 text-slate-300 hover:border-brand-500 hover:text-white disabled:opacity-50 transition-colors"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(m => (
+          <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            {m.role === 'user' ? (
+              <div className="max-w-[85%] bg-brand-600 text-white rounded-2xl rounded-br-sm px-4 py-2 text-sm whitespace-pre-wrap">
+                {m.content}
+              </div>
+            ) : (
+              <div className="max-w-[85%] bg-slate-900/60 border border-slate-700 rounded-2xl rounded-bl-sm px-4 py-3">
+                <div className="prose prose-invert prose-sm max-w-none">
+                  <ReactMarkdown>{m.content}</ReactMarkdown>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {sending && (
+          <div className="flex gap-1 px-2">
+            <span className="w-2 h-2 bg-slate-500 rounded-full animate-pulse"></span>
+            <span className="w-2 h-2 bg-slate-500 rounded-full animate-pulse"></span>
+            <span className="w-2 h-2 bg-slate-500 rounded-full animate-pulse"></span>
+          </div>
+        )}
+
+        {error && !sending && (
+          <div className="bg-red-500/10 border border-red-900/50 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-4 border-t border-slate-700">
+        {unavailableReason ? (
+          <p className="text-sm text-slate-500">{unavailableReason}</p>
+        ) : (
+          <form
+            onSubmit={e => { e.preventDefault(); send(draft); }}
+            className="flex gap-2"
+          >
+            <input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              placeholder="e.g. Why is my Medicine focus low?"
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+            />
+            <Button type="submit" disabled={!draft.trim() || sending} isLoading={sending}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, CheckSquare, Lightbulb, Square, Target, Trash2, TrendingUp } from 'lucide-react';
+import { ActionPriority, CoachReport } from '../types';
+import { getMetricChanges } from '../services/coachReports';
+
+interface CoachReportViewProps {
+  reports: CoachReport[]; // newest first
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onToggleAction: (reportId: string, itemId: string) => void;
+  onDelete: (report: CoachReport) => void;
+}
+
+const PRIORITY_STYLES: Record<ActionPriority, string> = {
+  HIGH: 'bg-red-500/10 text-red-400 border-red-900/50',
+  MEDIUM: 'bg-amber-500/10 text-amber-400 border-amber-900/50',
+  LOW: 'bg-slate-700/50 text-slate-400 border-slate-600',
+};
+
+const PRIORITY_ORDER: ActionPriority[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+const formatReportDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const CoachReportView: React.FC<CoachReportViewProps> = ({ reports, selectedId, onSelect, onToggleAction, onDelete }) => {
+  const index = Math.max(0, reports.findIndex(r => r.id === selectedId));
+  const report = reports[index];
+  const previous = reports[index + 1];
+  if (!report) return null;
+
+  // The first report is compared with itself, which shows its values without changes
+  const changes = getMetricChanges(report.metrics, (previous ?? report).metrics);
+  const doneCount = report.actionItems.filter(i => i.done).length;
+  const actionItems = [...report.actionItems].sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <div className="flex justify-between items-start gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Coach Report</h3>
+            <p className="text-xs text-slate-500">{formatReportDate(report.createdAt)} • {report.provider}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {reports.length > 1 && (
+              <select
+                value={report.id}
+                onChange={e => onSelect(e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+              >
+                {reports.map((r, i) => (
+                  <option key={r.id} value={r.id}>{formatReportDate(r.createdAt)}{i === 0 ? ' (latest)' : ''}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => onDelete(report)}
+              className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+              title="Delete report"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <p className="text-slate-300">{report.summary}</p>
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Last 7 Days</h3>
+        <p className="text-sm text-slate-400 mb-4">
+          {previous ? `Compared with the report from ${formatReportDate(previous.createdAt)}` : 'The next report will show how these changed'}
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {changes.map(m => (
+            <div key={m.key} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+              <p className="text-xs text-slate-500">{m.label}</p>
+              <p className="text-lg font-bold text-white">{m.current !== null ? `${m.current}${m.unit}` : '—'}</p>
+              {previous && m.change !== null && m.change !== 0 && (
+                <p className={`text-xs flex items-center gap-0.5 ${m.change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {m.change > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                  {Math.abs(m.change)}{m.unit === '/5' ? '' : m.unit}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Target className="w-5 h-5 text-brand-400" /> Action Items
+          </h3>
+          <span className="text-sm text-slate-400">{doneCount}/{report.actionItems.length} done</span>
+        </div>
+        <div className="space-y-2">
+          {actionItems.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onToggleAction(report.id, item.id)}
+              className="w-full flex items-start gap-3 p-3 rounded-lg border border-slate-700 hover:border-slate-600 text-left transition-colors"
+            >
+              {item.done
+                ? <CheckSquare className="w-5 h-5 text-green-400 shrink-0" />
+                : <Square className="w-5 h-5 text-slate-500 shrink-0" />}
+              <span className={`flex-1 text-sm ${item.done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{item.text}</span>
+              <span className={`text-[10px] font-bold px-2 py-0.5 rounded border shrink-0 ${PRIORITY_STYLES[item.priority]}`}>{item.priority}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-green-400" /> Trends
+          </h3>
+          <ul className="space-y-2 text-sm text-slate-300 list-disc pl-5">
+            {report.trends.map((t, i) => <li key={i}>{t}</li>)}
+          </ul>
+        </div>
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4">Weak Subjects</h3>
+          {report.weakSubjects.length === 0 ? (
+            <p className="text-sm text-slate-500">No weak subjects flagged.</p>
+          ) : (
+            <div className="space-y-3">
+              {report.weakSubjects.map(w => (
+                <div key={w.subject}>
+                  <p className="text-sm font-medium text-red-300">{w.subject}</p>
+                  <p className="text-xs text-slate-400">{w.reason}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-brand-900/20 p-6 rounded-xl border border-brand-800/50 flex items-start gap-3">
+        <Lightbulb className="w-5 h-5 text-brand-400 shrink-0 mt-0.5" />
+        <div>
+          <h3 className="text-sm font-semibold text-white mb-1">Focus Tip</h3>
+          <p className="text-sm text-slate-300">{report.focusTip}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
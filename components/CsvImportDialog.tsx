@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { X, Table } from 'lucide-react';
+import { Button } from './Button';
+import { BackupValidation } from '../services/backup';
+import { CSV_FIELDS, CsvDateOrder, CsvRecordKind, autoMapColumns, convertCsvRows, detectCsvDateOrder, detectCsvKind } from '../services/csvData';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  table: string[][]; // parsed rows, header row first
+  onContinue: (validation: BackupValidation) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  id: 'ID',
+  subject: 'Subject',
+  startTime: 'Start time',
+  endTime: 'End time',
+  duration: 'Duration',
+  concentration: 'Concentration (1-5)',
+  notes: 'Notes',
+  timestamp: 'Date / time',
+  count: 'MCQ count',
+  verified: 'Verified',
+  feedback: 'Feedback',
+  source: 'Source / QBank',
+  correct: 'Correct',
+  incorrect: 'Incorrect',
+  skipped: 'Skipped',
+  timeTakenMinutes: 'Time taken (min)',
+};
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, table, onContinue, onClose }) => {
+  const headers = table[0] || [];
+  const [kind, setKind] = useState<CsvRecordKind>(() => detectCsvKind(headers));
+  const [mapping, setMapping] = useState<Record<string, number>>(() => autoMapColumns(detectCsvKind(headers), headers));
+  const [dateOrder, setDateOrder] = useState<CsvDateOrder>(() => detectCsvDateOrder(kind, table, mapping));
+
+  const fields = CSV_FIELDS[kind];
+  const missingRequired = fields.filter(f => f.required && mapping[f.key] < 0);
+  const hasTimeSpan = kind !== 'sessions' || mapping.endTime >= 0 || mapping.duration >= 0;
+  const conversion = missingRequired.length === 0 && hasTimeSpan ? convertCsvRows(kind, table, mapping, dateOrder) : null;
+
+  const handleKindChange = (next: CsvRecordKind) => {
+    const nextMapping = autoMapColumns(next, headers);
+    setKind(next);
+    setMapping(nextMapping);
+    setDateOrder(detectCsvDateOrder(next, table, nextMapping));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white">Map CSV Columns</h2>
+            <p className="text-sm text-slate-400 truncate">{fileName} • {Math.max(0, table.length - 1)} rows</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">This file contains</label>
+            <select
+              value={kind}
+              onChange={e => handleKindChange(e.target.value as CsvRecordKind)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+            >
+              <option value="sessions">Study sessions</option>
+              <option value="mcqLogs">MCQ logs</option>
+            </select>
+          </div>
+
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.key} className="grid grid-cols-2 gap-3 items-center">
+                <label className="text-sm text-slate-300">
+                  {FIELD_LABELS[field.key]}
+                  {field.required && <span className="text-red-400"> *</span>}
+                </label>
+                <select
+                  value={mapping[field.key]}
+                  onChange={e => setMapping(prev => ({ ...prev, [field.key]: parseInt(e.target.value, 10) }))}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+                >
+                  <option value={-1}>— not in file —</option>
+                  {headers.map((header, i) => (
+                    <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Dates like 03/04/2026 are written</label>
+            <select
+              value={dateOrder}
+              onChange={e => setDateOrder(e.target.value as CsvDateOrder)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+            >
+              <option value="DMY">Day first: DD/MM/YYYY (3 April)</option>
+              <option value="MDY">Month first: MM/DD/YYYY (4 March)</option>
+            </select>
+            <p className="text-xs text-slate-500 mt-1">YYYY-MM-DD dates and timestamps read the same either way.</p>
+          </div>
+
+          {kind === 'sessions' && (
+            <p className="text-xs text-slate-500">
+              Durations may be seconds, "1:30:00" or "1h 30m". A missing end time is computed from the duration and vice versa. Rows without an ID get a new one.
+            </p>
+          )}
+
+          <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 flex items-center gap-3 text-sm">
+            <Table className="w-4 h-4 text-slate-400" />
+            {missingRequired.length > 0 ? (
+              <span className="text-red-300">Map {missingRequired.map(f => FIELD_LABELS[f.key]).join(', ')} to continue.</span>
+            ) : !hasTimeSpan ? (
+              <span className="text-red-300">Map an end time or a duration column to continue.</span>
+            ) : (
+              <span className="text-slate-300">
+                {(conversion!.data.sessions.length + conversion!.data.mcqLogs.length)} rows ready
+                {conversion!.errors.length > 0 && <span className="text-red-300"> • {conversion!.errors.length} with errors</span>}
+              </span>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="ghost" onClick={onClose} className="flex-1">Cancel</Button>
+            <Button onClick={() => conversion && onContinue(conversion)} disabled={!conversion} className="flex-1">
+              Preview Import
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
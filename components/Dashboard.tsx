@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   BarChart,
   Bar,
@@ -9,55 +9,139 @@ import {
   ResponsiveContainer,
   LineChart,
   Line,
-  Cell
+  Cell,
+  PieChart,
+  Pie
 } from 'recharts';
-import { StudySession } from '../types';
+import { MCQLog, StudySession } from '../types';
+import { SyllabusIndex, getSessionSubjectGroup, resolveSessionNode } from '../services/syllabus';
+import {
+  RangePreset,
+  filterSessionsInRange,
+  getDailyStats,
+  getRangeDays,
+  getSubjectDistribution,
+  getWeekOverWeek,
+  resolveRange
+} from '../services/aggregation';
+import { getDistractionStats, formatPauseReason } from '../services/distractions';
+import { StudyHeatmap } from './StudyHeatmap';
+
+const RANGE_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: '7D', label: '7 days' },
+  { value: '30D', label: '30 days' },
+  { value: '90D', label: '90 days' },
+  { value: 'CUSTOM', label: 'Custom' },
+  { value: 'ALL', label: 'All time' },
+];
+
+const PIE_COLORS = ['#3b82f6', '#a855f7', '#22c55e', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#64748b'];
 
 interface DashboardProps {
   sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  syllabusIndex: SyllabusIndex;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ sessions }) => {
-  // Process data for charts
-  
-  // 1. Sessions per day (last 7 days)
-  const getLast7Days = () => {
-    const dates = [];
-    for (let i = 6; i >= 0; i--) {
-      const d = new Date();
-      d.setDate(d.getDate() - i);
-      dates.push(d.toISOString().split('T')[0]);
-    }
-    return dates;
-  };
-
-  const dailyData = getLast7Days().map(date => {
-    const daySessions = sessions.filter(s => new Date(s.startTime).toISOString().startsWith(date));
-    const totalDuration = daySessions.reduce((acc, curr) => acc + curr.duration, 0) / 3600; // in hours
-    const avgConc = daySessions.length 
-      ? daySessions.reduce((acc, curr) => acc + curr.concentration, 0) / daySessions.length 
-      : 0;
-
-    return {
-      date: new Date(date).toLocaleDateString('en-US', { weekday: 'short' }),
-      hours: parseFloat(totalDuration.toFixed(2)),
-      concentration: parseFloat(avgConc.toFixed(1))
-    };
-  });
+export const Dashboard: React.FC<DashboardProps> = ({ sessions, mcqLogs, syllabusIndex }) => {
+  const [preset, setPreset] = useState<RangePreset>('7D');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+
+  // Every card and chart below uses the selected range
+  const range = resolveRange(preset, sessions, { from: customFrom, to: customTo });
+  const rangeDays = getRangeDays(range);
+  const rangeSessions = filterSessionsInRange(sessions, range);
+
+  // 1. Daily totals for the range
+  const dailyData = getDailyStats(sessions, range).map(day => ({
+    date: new Date(`${day.date}T00:00:00`).toLocaleDateString('en-US', rangeDays <= 7 ? { weekday: 'short' } : { month: 'short', day: 'numeric' }),
+    hours: parseFloat((day.totalDuration / 60).toFixed(2)),
+    concentration: day.sessionsCount ? parseFloat(day.avgConcentration.toFixed(1)) : null
+  }));
 
   // 2. Total Stats
-  const totalHours = (sessions.reduce((acc, s) => acc + s.duration, 0) / 3600).toFixed(1);
-  const globalAvgConc = sessions.length 
-    ? (sessions.reduce((acc, s) => acc + s.concentration, 0) / sessions.length).toFixed(1) 
+  const totalHours = (rangeSessions.reduce((acc, s) => acc + s.duration, 0) / 3600).toFixed(1);
+  const globalAvgConc = rangeSessions.length 
+    ? (rangeSessions.reduce((acc, s) => acc + s.concentration, 0) / rangeSessions.length).toFixed(1) 
     : "0.0";
-  const totalSessions = sessions.length;
+  const totalSessions = rangeSessions.length;
+  // Pauses and tab switches, from Timer sessions only
+  const distractions = getDistractionStats(rangeSessions);
+  const topReason = distractions.reasons.find(r => r.reason !== null);
+
+  // 3. Time rolled up by syllabus subject and chapter
+  const distribution = getSubjectDistribution(rangeSessions, syllabusIndex);
+  const totalSeconds = distribution.reduce((acc, d) => acc + d.value, 0);
+  const pieData = [
+    ...distribution.slice(0, PIE_COLORS.length - 1),
+    ...(distribution.length >= PIE_COLORS.length
+      ? [{ name: 'Other', value: distribution.slice(PIE_COLORS.length - 1).reduce((acc, d) => acc + d.value, 0) }]
+      : [])
+  ].map(d => ({ name: d.name, hours: parseFloat((d.value / 3600).toFixed(2)), share: Math.round((d.value / totalSeconds) * 100) }));
+
+  const chapterTotals = new Map<string, { subject: string; chapter: string; seconds: number }>();
+  rangeSessions.forEach(s => {
+    const chapter = resolveSessionNode(syllabusIndex, s)?.path[1];
+    if (chapter) {
+      const current = chapterTotals.get(chapter.id) || { subject: getSessionSubjectGroup(syllabusIndex, s), chapter: chapter.title, seconds: 0 };
+      chapterTotals.set(chapter.id, { ...current, seconds: current.seconds + s.duration });
+    }
+  });
+
+  const topChapters = Array.from(chapterTotals.values())
+    .sort((a, b) => b.seconds - a.seconds)
+    .slice(0, 8);
+
+  // 4. Week over week
+  const weeklyData = getWeekOverWeek(sessions, range).map(w => ({
+    week: new Date(w.weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    hours: w.hours,
+    change: w.changePercent
+  }));
+  const lastWeek = weeklyData[weeklyData.length - 1];
 
   return (
     <div className="space-y-8 animate-fade-in">
+      {/* Range Selector */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex flex-wrap gap-1 bg-slate-800 p-1 rounded-lg border border-slate-700">
+          {RANGE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setPreset(option.value)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${preset === option.value ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {preset === 'CUSTOM' && (
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <input
+              type="date"
+              value={customFrom}
+              onChange={e => setCustomFrom(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-white [color-scheme:dark] focus:ring-1 focus:ring-brand-500 outline-none"
+            />
+            to
+            <input
+              type="date"
+              value={customTo}
+              onChange={e => setCustomTo(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-white [color-scheme:dark] focus:ring-1 focus:ring-brand-500 outline-none"
+            />
+          </div>
+        )}
+        <span className="text-xs text-slate-500 ml-auto">
+          {new Date(range.start).toLocaleDateString()} – {new Date(range.end - 1).toLocaleDateString()}
+        </span>
+      </div>
+
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
-          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Total Study Time</p>
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Study Time</p>
           <div className="mt-2 flex items-baseline gap-2">
             <span className="text-4xl font-bold text-white">{totalHours}</span>
             <span className="text-sm text-slate-400">hours</span>
@@ -71,7 +155,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions }) => {
           </div>
         </div>
         <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
-          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Total Sessions</p>
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Distractions</p>
+          <div className="mt-2 flex items-baseline gap-2">
+            <span className="text-4xl font-bold text-amber-400">{distractions.switchesPerHour ?? '—'}</span>
+            <span className="text-sm text-slate-400">tab switches / h</span>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {distractions.trackedSessions === 0
+              ? 'Recorded for Timer sessions'
+              : `${distractions.pauseCount} pauses • ${distractions.pausedMinutes}m paused${topReason ? ` • mostly ${formatPauseReason(topReason.reason).toLowerCase()}` : ''}`}
+          </p>
+        </div>
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Sessions</p>
           <div className="mt-2 flex items-baseline gap-2">
             <span className="text-4xl font-bold text-white">{totalSessions}</span>
             <span className="text-sm text-slate-400">sessions</span>
@@ -79,12 +175,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions }) => {
         </div>
       </div>
 
+      <StudyHeatmap sessions={sessions} mcqLogs={mcqLogs} syllabusIndex={syllabusIndex} />
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         
         {/* Daily Duration Chart */}
         <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
-          <h3 className="text-lg font-semibold text-white mb-6">Daily Study Hours (Last 7 Days)</h3>
+          <h3 className="text-lg font-semibold text-white mb-6">Daily Study Hours</h3>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={dailyData}>
@@ -123,6 +221,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions }) => {
                   type="monotone" 
                   dataKey="concentration" 
                   name="Concentration"
+                  connectNulls
                   stroke="#a855f7" 
                   strokeWidth={3} 
                   dot={{ fill: '#a855f7', strokeWidth: 2 }} 
@@ -134,6 +233,100 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions }) => {
         </div>
 
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+
+        {/* Subject Distribution */}
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <h3 className="text-lg font-semibold text-white mb-6">Time by Subject</h3>
+          {pieData.length === 0 ? (
+            <p className="text-sm text-slate-500">No sessions in this range.</p>
+          ) : (
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <div className="h-56 w-56 shrink-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie data={pieData} dataKey="hours" nameKey="name" innerRadius={50} outerRadius={90} paddingAngle={2} stroke="none">
+                      {pieData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip 
+                      contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                      itemStyle={{ color: '#e2e8f0' }}
+                    />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-2 w-full min-w-0">
+                {pieData.map((entry, index) => (
+                  <div key={entry.name} className="flex items-center gap-2 text-sm">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: PIE_COLORS[index % PIE_COLORS.length] }}></span>
+                    <span className="text-slate-200 truncate">{entry.name}</span>
+                    <span className="ml-auto text-slate-400 shrink-0">{entry.hours.toFixed(1)}h • {entry.share}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Chapter Roll-up */}
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <h3 className="text-lg font-semibold text-white mb-6">Top Chapters</h3>
+          {topChapters.length === 0 ? (
+            <p className="text-sm text-slate-500">Log sessions against syllabus topics (e.g. "Pathology - Hematology - Anemias") to see chapter totals.</p>
+          ) : (
+            <div className="space-y-3">
+              {topChapters.map(c => (
+                <div key={`${c.subject}-${c.chapter}`} className="flex justify-between items-center text-sm">
+                  <div className="min-w-0">
+                    <p className="text-white truncate">{c.chapter}</p>
+                    <p className="text-xs text-slate-500">{c.subject}</p>
+                  </div>
+                  <span className="text-brand-400 font-bold shrink-0">{(c.seconds / 3600).toFixed(1)}h</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+      </div>
+
+      {/* Week over Week */}
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+        <div className="flex justify-between items-baseline mb-6">
+          <h3 className="text-lg font-semibold text-white">Week over Week</h3>
+          {lastWeek && lastWeek.change !== null && (
+            <span className={`text-sm font-medium ${lastWeek.change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {lastWeek.change >= 0 ? '+' : ''}{lastWeek.change}% vs previous week
+            </span>
+          )}
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={weeklyData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="week" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                itemStyle={{ color: '#e2e8f0' }}
+                cursor={{fill: '#334155', opacity: 0.2}}
+                formatter={(value: number, _name, item) => [
+                  `${value}h${item.payload.change !== null ? ` (${item.payload.change >= 0 ? '+' : ''}${item.payload.change}%)` : ''}`,
+                  'Hours'
+                ]}
+              />
+              <Bar dataKey="hours" name="Hours" radius={[4, 4, 0, 0]}>
+                {weeklyData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.change !== null && entry.change < 0 ? '#64748b' : '#22c55e'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { CalendarClock, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { ExamSettings, StudySession } from '../types';
+import { SyllabusIndex, getSyllabusProgress } from '../services/syllabus';
+import { PACE_WINDOW_DAYS, buildExamPlan, getUpcomingExams } from '../services/examPlanner';
+
+interface ExamPlannerProps {
+  exams: ExamSettings;
+  sessions: StudySession[];
+  syllabusIndex: SyllabusIndex;
+  dailyGoalHours: number;
+}
+
+const PHASE_COLORS = ['bg-brand-500', 'bg-purple-500', 'bg-amber-500', 'bg-green-500'];
+const WARNINGS_SHOWN = 5;
+
+export const ExamPlanner: React.FC<ExamPlannerProps> = ({ exams, sessions, syllabusIndex, dailyGoalHours }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const upcoming = getUpcomingExams(exams);
+  if (upcoming.length === 0) {
+    return (
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm flex items-center gap-3">
+        <CalendarClock className="w-5 h-5 text-slate-500" />
+        <p className="text-sm text-slate-400">Set your NEET PG or INI-CET date in Settings to get a countdown and a backward plan.</p>
+      </div>
+    );
+  }
+
+  const [exam, ...others] = upcoming;
+  const plan = buildExamPlan(exam, sessions, syllabusIndex, getSyllabusProgress(syllabusIndex, sessions), dailyGoalHours);
+  const offTrack = plan.subjects.filter(s => !s.onTrack);
+  const listed = showAll ? plan.subjects : offTrack.slice(0, WARNINGS_SHOWN);
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm space-y-6">
+      {/* Countdown */}
+      <div className="flex flex-wrap items-end gap-x-8 gap-y-4">
+        <div>
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-brand-400" /> {exam.label} in
+          </p>
+          <div className="mt-1 flex items-baseline gap-2">
+            <span className="text-5xl font-bold text-white">{plan.daysLeft}</span>
+            <span className="text-slate-400">days • {new Date(exam.date).toLocaleDateString()}</span>
+          </div>
+          {others.map(other => (
+            <p key={other.key} className="text-xs text-slate-500 mt-1">{other.label}: {other.daysLeft} days</p>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-6 text-sm">
+          <div>
+            <p className="text-2xl font-bold text-white">{plan.paceHoursPerDay}h</p>
+            <p className="text-xs text-slate-500">per day, last {PACE_WINDOW_DAYS} days</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-brand-400">{plan.projectedHours}h</p>
+            <p className="text-xs text-slate-500">left at this pace</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-white">{plan.coverage}%</p>
+            <p className="text-xs text-slate-500">syllabus covered</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Phases */}
+      {plan.phases.length > 0 && (
+        <div>
+          <div className="flex h-3 rounded-full overflow-hidden gap-0.5">
+            {plan.phases.map((phase, i) => (
+              <div key={phase.kind} className={PHASE_COLORS[i % PHASE_COLORS.length]} style={{ flexGrow: phase.days }} title={`${phase.label}: ${phase.days} days`} />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+            {plan.phases.map((phase, i) => (
+              <div key={phase.kind} className="text-xs">
+                <p className="text-slate-200 font-medium flex items-center gap-1.5">
+                  <span className={`w-2 h-2 rounded-full ${PHASE_COLORS[i % PHASE_COLORS.length]}`} />
+                  {phase.label}{i === 0 && <span className="text-brand-400"> • now</span>}
+                </p>
+                <p className="text-slate-500">
+                  {new Date(phase.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – {new Date(phase.end - 1).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} • {phase.days}d
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Subject targets */}
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-medium text-slate-300">
+            {offTrack.length > 0
+              ? <span className="flex items-center gap-2"><AlertTriangle className="w-4 h-4 text-amber-400" /> {offTrack.length} subjects behind pace</span>
+              : 'Every subject is on pace'}
+          </h3>
+          <button onClick={() => setShowAll(v => !v)} className="text-xs text-brand-400 hover:text-brand-300 flex items-center gap-1">
+            {showAll ? <>Show warnings <ChevronUp className="w-3 h-3" /></> : <>All subjects <ChevronDown className="w-3 h-3" /></>}
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Targets share {plan.plannedHoursPerDay}h/day {dailyGoalHours > 0 ? '(your daily goal)' : '(your current pace)'} across subjects by syllabus size.
+        </p>
+        {listed.length > 0 && (
+          <div className="space-y-2">
+            {listed.map(s => (
+              <div key={s.subject} className="flex justify-between items-center text-sm bg-slate-900/50 p-3 rounded-lg border border-slate-800 gap-3">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{s.subject}</p>
+                  <p className="text-xs text-slate-500">{s.coverage}% covered • {s.loggedHours}h of {s.targetHours}h logged</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`font-bold ${s.onTrack ? 'text-green-400' : 'text-amber-400'}`}>{s.requiredPerDay}h/day</p>
+                  <p className="text-xs text-slate-500">on pace for {s.projectedHours}h</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
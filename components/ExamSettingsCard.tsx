@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { CalendarClock, Save } from 'lucide-react';
+import { Button } from './Button';
+import { ExamSettings } from '../types';
+
+interface ExamSettingsCardProps {
+  exams: ExamSettings;
+  onSave: (exams: ExamSettings) => void;
+}
+
+export const ExamSettingsCard: React.FC<ExamSettingsCardProps> = ({ exams, onSave }) => {
+  const [neetPgDate, setNeetPgDate] = useState(exams.neetPgDate ?? '');
+  const [iniCetDate, setIniCetDate] = useState(exams.iniCetDate ?? '');
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white [color-scheme:dark] focus:ring-1 focus:ring-brand-500 outline-none";
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-purple-500/10 rounded-lg">
+            <CalendarClock className="w-6 h-6 text-purple-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Exam Dates</h3>
+            <p className="text-sm text-slate-400">Used for the Dashboard countdown and backward plan. Leave blank if not applicable.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">NEET PG</label>
+            <input type="date" value={neetPgDate} onChange={e => setNeetPgDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">INI-CET</label>
+            <input type="date" value={iniCetDate} onChange={e => setIniCetDate(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => onSave({ neetPgDate: neetPgDate || null, iniCetDate: iniCetDate || null })} size="sm">
+            <Save className="w-4 h-4 mr-2" /> Save Dates
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
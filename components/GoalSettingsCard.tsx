@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Target, Save, Plus, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { GoalSettings } from '../types';
+
+interface GoalSettingsCardProps {
+  goals: GoalSettings;
+  subjects: string[];
+  onSave: (goals: GoalSettings) => void;
+}
+
+export const GoalSettingsCard: React.FC<GoalSettingsCardProps> = ({ goals, subjects, onSave }) => {
+  const [dailyHours, setDailyHours] = useState(String(goals.dailyStudyHours));
+  const [dailyMCQs, setDailyMCQs] = useState(String(goals.dailyMCQs));
+  const [weekly, setWeekly] = useState(() =>
+    Object.entries(goals.weeklySubjectHours).map(([subject, hours]) => ({ subject, hours: String(hours) }))
+  );
+  const [restDays, setRestDays] = useState(goals.restDays);
+  const [newRestDay, setNewRestDay] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const hours = Number(dailyHours || 0);
+    const mcqs = Number(dailyMCQs || 0);
+    if (!(hours >= 0 && hours <= 24)) return setError("Daily study hours must be between 0 and 24.");
+    if (!(Number.isInteger(mcqs) && mcqs >= 0)) return setError("Daily MCQs must be a whole number of 0 or more.");
+
+    const weeklySubjectHours: Record<string, number> = {};
+    for (const row of weekly) {
+      if (!row.subject.trim()) continue;
+      const target = Number(row.hours || 0);
+      if (!(target >= 0 && target <= 168)) return setError(`${row.subject}: weekly hours must be between 0 and 168.`);
+      weeklySubjectHours[row.subject.trim()] = target;
+    }
+
+    setError(null);
+    onSave({ dailyStudyHours: hours, dailyMCQs: mcqs, weeklySubjectHours, restDays: [...restDays].sort() });
+  };
+
+  const addRestDay = () => {
+    if (newRestDay && !restDays.includes(newRestDay)) setRestDays(prev => [...prev, newRestDay].sort());
+    setNewRestDay('');
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none";
+  const unusedSubjects = subjects.filter(s => !weekly.some(w => w.subject === s));
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-orange-500/10 rounded-lg">
+            <Target className="w-6 h-6 text-orange-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Goals & Streaks</h3>
+            <p className="text-sm text-slate-400">Daily and weekly targets shown on the Dashboard. Set a target to 0 to turn it off.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Study hours per day</label>
+            <input type="number" min={0} max={24} step="0.5" value={dailyHours} onChange={e => setDailyHours(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">MCQs per day</label>
+            <input type="number" min={0} value={dailyMCQs} onChange={e => setDailyMCQs(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-slate-300">Weekly hours by subject</label>
+            <button
+              onClick={() => setWeekly(prev => [...prev, { subject: unusedSubjects[0] ?? '', hours: '' }])}
+              className="text-xs text-brand-400 hover:text-brand-300 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Add subject
+            </button>
+          </div>
+          <div className="space-y-2">
+            {weekly.map((row, i) => (
+              <div key={i} className="grid grid-cols-[1fr_6rem_auto] gap-2 items-center">
+                <select
+                  value={row.subject}
+                  onChange={e => setWeekly(prev => prev.map((w, j) => j === i ? { ...w, subject: e.target.value } : w))}
+                  className={inputClass}
+                >
+                  {[row.subject, ...unusedSubjects].filter(Boolean).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={row.hours}
+                  onChange={e => setWeekly(prev => prev.map((w, j) => j === i ? { ...w, hours: e.target.value } : w))}
+                  placeholder="Hours"
+                  className={inputClass}
+                />
+                <button onClick={() => setWeekly(prev => prev.filter((_, j) => j !== i))} className="p-2 text-slate-500 hover:text-red-400 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Rest days</label>
+          <div className="flex gap-2 mb-2">
+            <input type="date" value={newRestDay} onChange={e => setNewRestDay(e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+            <Button onClick={addRestDay} variant="secondary" size="sm" disabled={!newRestDay}>Add</Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {restDays.map(day => (
+              <span key={day} className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-slate-900 border border-slate-700 text-xs text-slate-300">
+                {new Date(`${day}T00:00:00`).toLocaleDateString()}
+                <button onClick={() => setRestDays(prev => prev.filter(d => d !== day))} className="text-slate-500 hover:text-white">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} size="sm">
+            <Save className="w-4 h-4 mr-2" /> Save Goals
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Target, Flame, Coffee } from 'lucide-react';
+import { GoalSettings, GoalStreak, MCQLog, StudySession } from '../types';
+import { SyllabusIndex } from '../services/syllabus';
+import { getDailyMCQCounts, getDailyStreak, getDailyStudyHours, getWeeklySubjectProgress } from '../services/goals';
+import { getLocalDateString } from '../utils/date';
+
+interface GoalsPanelProps {
+  goals: GoalSettings;
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  syllabusIndex: SyllabusIndex;
+  onToggleRestDay: (day: string) => void;
+}
+
+const StreakBadge: React.FC<{ streak: GoalStreak; unit: string }> = ({ streak, unit }) => (
+  <span className="text-xs text-slate-400 flex items-center gap-1">
+    <Flame className={`w-3.5 h-3.5 ${streak.current > 0 ? 'text-orange-400' : 'text-slate-600'}`} />
+    {streak.current} {unit} • best {streak.longest}
+  </span>
+);
+
+export const GoalsPanel: React.FC<GoalsPanelProps> = ({ goals, sessions, mcqLogs, syllabusIndex, onToggleRestDay }) => {
+  const today = getLocalDateString(Date.now());
+  const isRestDay = goals.restDays.includes(today);
+
+  const studyTotals = getDailyStudyHours(sessions);
+  const mcqTotals = getDailyMCQCounts(mcqLogs);
+  const weekly = getWeeklySubjectProgress(goals, sessions, syllabusIndex);
+
+  const daily = [
+    {
+      label: 'Study Hours',
+      value: Math.round((studyTotals.get(today) || 0) * 10) / 10,
+      target: goals.dailyStudyHours,
+      streak: getDailyStreak(studyTotals, goals.dailyStudyHours, goals.restDays),
+    },
+    {
+      label: 'MCQs',
+      value: mcqTotals.get(today) || 0,
+      target: goals.dailyMCQs,
+      streak: getDailyStreak(mcqTotals, goals.dailyMCQs, goals.restDays),
+    },
+  ].filter(g => g.target > 0);
+
+  if (daily.length === 0 && weekly.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <Target className="w-5 h-5 text-brand-400" />
+        <h3 className="text-lg font-semibold text-white">Goals</h3>
+        <button
+          onClick={() => onToggleRestDay(today)}
+          className={`ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+            isRestDay ? 'bg-amber-500/10 text-amber-300 border border-amber-500/30' : 'text-slate-400 hover:text-white hover:bg-slate-700'
+          }`}
+          title="Rest days do not break a streak"
+        >
+          <Coffee className="w-3.5 h-3.5" /> {isRestDay ? 'Rest day (undo)' : 'Mark today as rest day'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {daily.map(goal => {
+          const progress = Math.min(100, Math.round((goal.value / goal.target) * 100));
+          return (
+            <div key={goal.label} className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+              <div className="flex justify-between items-baseline mb-2">
+                <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Today's {goal.label}</p>
+                <StreakBadge streak={goal.streak} unit="days" />
+              </div>
+              <div className="flex items-baseline gap-2 mb-2">
+                <span className={`text-3xl font-bold ${progress >= 100 ? 'text-green-400' : 'text-white'}`}>{goal.value}</span>
+                <span className="text-sm text-slate-500">/ {goal.target}</span>
+              </div>
+              <div className="w-full bg-slate-700 h-2 rounded-full overflow-hidden">
+                <div className={`h-full transition-all ${progress >= 100 ? 'bg-green-500' : 'bg-brand-500'}`} style={{ width: `${progress}%` }}></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {weekly.length > 0 && (
+        <div className="mt-6">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider mb-3">This Week by Subject</p>
+          <div className="space-y-3">
+            {weekly.map(w => {
+              const progress = w.targetHours > 0 ? Math.min(100, Math.round((w.hours / w.targetHours) * 100)) : 100;
+              return (
+                <div key={w.subject}>
+                  <div className="flex justify-between text-sm mb-1 gap-2">
+                    <span className="text-slate-200 truncate">{w.subject}</span>
+                    <span className="shrink-0 flex items-center gap-3">
+                      <StreakBadge streak={w.streak} unit="wks" />
+                      <span className="text-slate-300">{w.hours}/{w.targetHours}h</span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden">
+                    <div className={`h-full ${progress >= 100 ? 'bg-green-500' : 'bg-brand-500'}`} style={{ width: `${progress}%` }}></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Moon } from 'lucide-react';
+import { Button } from './Button';
+
+interface IdlePromptDialogProps {
+  idleSince: number; // timestamp in ms of the last sign of activity
+  subject?: string;
+  onKeep: () => void;
+  onTrim: () => void;
+}
+
+export const IdlePromptDialog: React.FC<IdlePromptDialogProps> = ({ idleSince, subject, onKeep, onTrim }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 15 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const idleMinutes = Math.max(1, Math.round((now - idleSince) / 60000));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-xl p-6 space-y-5">
+        <div className="flex items-start gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-lg">
+            <Moon className="w-6 h-6 text-indigo-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-white">Are you still studying?</h2>
+            <p className="text-sm text-slate-400">
+              The timer for {subject || 'General Study'} has been running with no activity since{' '}
+              {new Date(idleSince).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} ({idleMinutes}m).
+            </p>
+          </div>
+        </div>
+        <p className="text-sm text-slate-400">
+          Removing the idle time pauses the timer at your last activity, so only the time you actually studied is logged.
+        </p>
+        <div className="flex gap-3">
+          <Button variant="ghost" onClick={onKeep} className="flex-1">I was studying</Button>
+          <Button onClick={onTrim} className="flex-1">Remove {idleMinutes}m</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { X, AlertCircle, GitMerge, Replace } from 'lucide-react';
+import { Button } from './Button';
+import {
+  BackupCollection,
+  BackupData,
+  BackupValidation,
+  ConflictPolicy,
+  ImportMode,
+  planImport
+} from '../services/backup';
+
+interface ImportDialogProps {
+  fileName: string;
+  validation: BackupValidation;
+  current: BackupData;
+  allowReplace?: boolean; // partial sources such as a single CSV can only be merged
+  onApply: (result: BackupData) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+  sessions: 'Sessions',
+  mcqLogs: 'MCQ logs',
+  mockTests: 'Grand tests',
+  coachReports: 'Coach reports',
+  studyPlan: 'Plan items',
+  goals: 'Goals',
+  exams: 'Exam dates',
+};
+
+const MAX_ERRORS_SHOWN = 20;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, validation, current, allowReplace = true, onApply, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>('MERGE');
+  const [conflicts, setConflicts] = useState<ConflictPolicy>('KEEP_CURRENT');
+
+  // Dry run: recomputed on every option change, nothing is applied until confirmed
+  const plan = planImport(current, validation, mode, conflicts);
+  const collections = Object.keys(COLLECTION_LABELS) as BackupCollection[];
+  const totalChanges = collections.reduce((acc, c) => {
+    const counts = plan.counts[c];
+    return acc + counts.added + counts.changed + counts.removed;
+  }, 0);
+
+  const handleApply = () => {
+    if (mode === 'REPLACE' && !window.confirm("Replace current data with this backup? Records missing from the file will be deleted. Sections the file does not include are kept.")) return;
+    onApply(plan.result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white">Import Backup</h2>
+            <p className="text-sm text-slate-400 truncate">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Mode */}
+          {allowReplace && (
+            <div className="grid grid-cols-2 gap-2 bg-slate-900 p-1 rounded-xl border border-slate-700">
+              {(['MERGE', 'REPLACE'] as ImportMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+                    mode === m ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {m === 'MERGE' ? <GitMerge className="w-4 h-4" /> : <Replace className="w-4 h-4" />}
+                  {m === 'MERGE' ? 'Merge' : 'Replace All'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mode === 'MERGE' && (
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">When the same record differs on both sides</label>
+              <select
+                value={conflicts}
+                onChange={e => setConflicts(e.target.value as ConflictPolicy)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+              >
+                <option value="KEEP_CURRENT">Keep the version on this device</option>
+                <option value="TAKE_INCOMING">Use the version from the file</option>
+              </select>
+            </div>
+          )}
+
+          {/* Preview */}
+          <div className="bg-slate-900/50 rounded-lg border border-slate-800 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 uppercase tracking-wider">
+                  <th className="text-left font-medium px-4 py-2"></th>
+                  <th className="text-right font-medium px-2 py-2">Add</th>
+                  <th className="text-right font-medium px-2 py-2">Change</th>
+                  <th className="text-right font-medium px-2 py-2">Skip</th>
+                  {mode === 'REPLACE' && <th className="text-right font-medium px-4 py-2">Remove</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {collections.map(c => (
+                  <tr key={c} className="border-t border-slate-800">
+                    <td className="px-4 py-2 text-slate-200">{COLLECTION_LABELS[c]}</td>
+                    {validation.data[c] === null ? (
+                      <td colSpan={mode === 'REPLACE' ? 4 : 3} className="px-4 py-2 text-right text-xs text-slate-500">
+                        Not in file, kept as is
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-2 py-2 text-right text-green-400 font-medium">{plan.counts[c].added}</td>
+                        <td className="px-2 py-2 text-right text-yellow-400 font-medium">{plan.counts[c].changed}</td>
+                        <td className="px-2 py-2 text-right text-slate-400">{plan.counts[c].skipped}</td>
+                        {mode === 'REPLACE' && <td className="px-4 py-2 text-right text-red-400 font-medium">{plan.counts[c].removed}</td>}
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Validation report */}
+          {validation.errors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-900/50 rounded-lg p-3">
+              <p className="text-sm font-medium text-red-200 mb-2 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" /> {validation.errors.length} invalid records will be ignored
+              </p>
+              <ul className="space-y-1 max-h-40 overflow-y-auto text-xs text-red-300">
+                {validation.errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => (
+                  <li key={i}>
+                    {COLLECTION_LABELS[error.collection]}
+                    {error.index >= 0 && ` #${error.index + 1}`}
+                    {error.id && ` (${error.id.slice(0, 8)})`}: {error.message}
+                  </li>
+                ))}
+                {validation.errors.length > MAX_ERRORS_SHOWN && (
+                  <li>…and {validation.errors.length - MAX_ERRORS_SHOWN} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button variant="ghost" onClick={onClose} className="flex-1">Cancel</Button>
+            <Button
+              onClick={handleApply}
+              variant={mode === 'REPLACE' ? 'danger' : 'primary'}
+              disabled={totalChanges === 0}
+              className="flex-1"
+            >
+              {totalChanges === 0 ? 'Nothing to Import' : mode === 'MERGE' ? 'Merge Backup' : 'Replace Data'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
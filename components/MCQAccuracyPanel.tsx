@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { MCQLog } from '../types';
+import { getAccuracy, getSubjectAccuracy, getWeeklyAccuracyTrend } from '../services/mcqStats';
+
+interface MCQAccuracyPanelProps {
+  logs: MCQLog[];
+}
+
+const accuracyColor = (accuracy: number | null) =>
+  accuracy === null ? 'text-slate-500' : accuracy >= 70 ? 'text-green-400' : accuracy >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+export const MCQAccuracyPanel: React.FC<MCQAccuracyPanelProps> = ({ logs }) => {
+  const [subject, setSubject] = useState<string>('ALL');
+
+  const overall = getAccuracy(logs);
+  const bySubject = getSubjectAccuracy(logs);
+  const trend = getWeeklyAccuracyTrend(logs, 8, subject === 'ALL' ? undefined : subject);
+
+  if (overall.accuracy === null) {
+    return (
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-2">Accuracy</h3>
+        <p className="text-sm text-slate-500">Log an MCQ block with correct and incorrect counts to see accuracy trends.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <div className="flex justify-between items-start mb-6 gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Accuracy Trend</h3>
+            <p className="text-sm text-slate-400">
+              Overall <span className={`font-bold ${accuracyColor(overall.accuracy)}`}>{overall.accuracy}%</span> across {overall.attempted} scored MCQs
+            </p>
+          </div>
+          <select
+            value={subject}
+            onChange={e => setSubject(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+          >
+            <option value="ALL">All Subjects</option>
+            {bySubject.map(s => <option key={s.subject} value={s.subject}>{s.subject}</option>)}
+          </select>
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="week" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} domain={[0, 100]} unit="%" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                itemStyle={{ color: '#e2e8f0' }}
+              />
+              <Line
+                type="monotone"
+                dataKey="accuracy"
+                name="Accuracy %"
+                stroke="#22c55e"
+                strokeWidth={3}
+                connectNulls
+                dot={{ fill: '#22c55e', strokeWidth: 2 }}
+                activeDot={{ r: 6, fill: '#fff' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 flex flex-col">
+        <h3 className="text-lg font-semibold text-white mb-1">Accuracy by Subject</h3>
+        <p className="text-sm text-slate-400 mb-4">Weakest first</p>
+        <div className="space-y-3 overflow-y-auto max-h-64 pr-2">
+          {bySubject.map(s => (
+            <div key={s.subject}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-slate-200 truncate">{s.subject}</span>
+                <span className="shrink-0">
+                  <span className={`font-bold ${accuracyColor(s.accuracy)}`}>{s.accuracy}%</span>
+                  <span className="text-xs text-slate-500"> • {s.correct}/{s.attempted}</span>
+                </span>
+              </div>
+              <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden">
+                <div className="bg-brand-500 h-full" style={{ width: `${s.accuracy ?? 0}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import { MCQLog } from '../types';
+import { COMMON_QBANKS, validateMCQDraft } from '../services/mcqStats';
+import { toDateTimeInputValue, fromDateTimeInputValue } from '../utils/date';
+
+interface MCQLogFormProps {
+  subjects: string[];
+  recentSources?: string[];
+  onSave: (log: Omit<MCQLog, 'id'>) => void;
+  onClose: () => void;
+}
+
+const toCount = (value: string) => value.trim() === '' ? 0 : Number(value);
+
+export const MCQLogForm: React.FC<MCQLogFormProps> = ({ subjects, recentSources = [], onSave, onClose }) => {
+  const [when, setWhen] = useState(toDateTimeInputValue(Date.now()));
+  const [subject, setSubject] = useState('');
+  const [source, setSource] = useState('');
+  const [attempted, setAttempted] = useState('');
+  const [correct, setCorrect] = useState('');
+  const [incorrect, setIncorrect] = useState('');
+  const [skipped, setSkipped] = useState('');
+  const [timeTaken, setTimeTaken] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const sources = Array.from(new Set([...recentSources, ...COMMON_QBANKS]));
+
+  // Fill incorrect from attempted - correct until the user types it themselves
+  const derivedIncorrect = incorrect === '' && attempted !== '' && correct !== ''
+    ? String(Math.max(0, toCount(attempted) - toCount(correct)))
+    : incorrect;
+
+  const attemptedCount = toCount(attempted);
+  const correctCount = toCount(correct);
+  const accuracy = attemptedCount > 0 && correct !== '' ? Math.round((correctCount / attemptedCount) * 100) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft = {
+      timestamp: fromDateTimeInputValue(when),
+      subject,
+      source,
+      attempted: attemptedCount,
+      correct: correctCount,
+      incorrect: toCount(derivedIncorrect),
+      skipped: toCount(skipped),
+      timeTakenMinutes: toCount(timeTaken),
+    };
+    const validationErrors = validateMCQDraft(draft);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    onSave({
+      timestamp: draft.timestamp,
+      count: draft.attempted,
+      verified: false,
+      feedback: `${draft.correct}/${draft.attempted} correct${draft.source ? ` on ${draft.source.trim()}` : ''}`,
+      subject: draft.subject.trim(),
+      source: draft.source.trim() || undefined,
+      correct: draft.correct,
+      incorrect: draft.incorrect,
+      skipped: draft.skipped,
+      timeTakenMinutes: draft.timeTakenMinutes || undefined,
+    });
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-brand-500 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <h2 className="text-xl font-bold text-white">Log MCQ Block</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Subject</label>
+              <input list="mcq-form-subjects" value={subject} onChange={e => setSubject(e.target.value)} className={inputClass} required />
+              <datalist id="mcq-form-subjects">
+                {subjects.map((s, i) => <option key={i} value={s} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Source</label>
+              <input list="mcq-form-sources" value={source} onChange={e => setSource(e.target.value)} placeholder="QBank / module" className={inputClass} />
+              <datalist id="mcq-form-sources">
+                {sources.map((s, i) => <option key={i} value={s} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">When</label>
+            <input type="datetime-local" value={when} onChange={e => setWhen(e.target.value)} className={`${inputClass} [color-scheme:dark]`} required />
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {([
+              ['Attempted', attempted, setAttempted],
+              ['Correct', correct, setCorrect],
+              ['Incorrect', derivedIncorrect, setIncorrect],
+              ['Skipped', skipped, setSkipped],
+            ] as [string, string, (v: string) => void][]).map(([label, value, setter]) => (
+              <div key={label}>
+                <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                <input type="number" min={0} value={value} onChange={e => setter(e.target.value)} className={inputClass} />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Time taken (min)</label>
+              <input type="number" min={0} value={timeTaken} onChange={e => setTimeTaken(e.target.value)} className={inputClass} />
+            </div>
+            <div className="text-right pb-2">
+              <span className="text-xs text-slate-500 uppercase tracking-wider">Accuracy </span>
+              <span className="text-2xl font-bold text-brand-400">{accuracy !== null ? `${accuracy}%` : '–'}</span>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-900/50 rounded-lg p-3 space-y-1">
+              {errors.map((error, i) => (
+                <p key={i} className="text-sm text-red-300 flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="button" variant="ghost" onClick={onClose} className="flex-1">Cancel</Button>
+            <Button type="submit" className="flex-1">Save Block</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { X, AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { MockTest } from '../types';
+import { NEET_PG_MAX_SCORE, getScorePercent, validateMockTestDraft } from '../services/mockTests';
+import { toDateTimeInputValue, fromDateTimeInputValue } from '../utils/date';
+
+interface MockTestFormProps {
+  test?: MockTest; // editing an existing test when present
+  subjects: string[];
+  onSave: (test: Omit<MockTest, 'id'>) => void;
+  onClose: () => void;
+}
+
+interface SubjectRow {
+  subject: string;
+  marks: string;
+  maxMarks: string;
+}
+
+const toOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+export const MockTestForm: React.FC<MockTestFormProps> = ({ test, subjects, onSave, onClose }) => {
+  const [name, setName] = useState(test?.name ?? '');
+  const [when, setWhen] = useState(toDateTimeInputValue(test?.date ?? Date.now()));
+  const [totalScore, setTotalScore] = useState(test ? String(test.totalScore) : '');
+  const [rank, setRank] = useState(test?.rank !== undefined ? String(test.rank) : '');
+  const [percentile, setPercentile] = useState(test?.percentile !== undefined ? String(test.percentile) : '');
+  const [notes, setNotes] = useState(test?.notes ?? '');
+  const [rows, setRows] = useState<SubjectRow[]>(() =>
+    test?.subjectMarks.map(m => ({ subject: m.subject, marks: String(m.marks), maxMarks: String(m.maxMarks) })) ?? []
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateRow = (index: number, patch: Partial<SubjectRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft = {
+      name,
+      date: fromDateTimeInputValue(when),
+      totalScore: toOptionalNumber(totalScore) ?? NaN,
+      maxScore: test?.maxScore ?? NEET_PG_MAX_SCORE,
+      subjectMarks: rows
+        .filter(r => r.subject.trim() || r.marks.trim())
+        .map(r => ({ subject: r.subject.trim(), marks: toOptionalNumber(r.marks) ?? NaN, maxMarks: toOptionalNumber(r.maxMarks) ?? NaN })),
+      rank: toOptionalNumber(rank),
+      percentile: toOptionalNumber(percentile),
+    };
+    const validationErrors = validateMockTestDraft(draft);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-brand-500 focus:outline-none";
+  const score = toOptionalNumber(totalScore);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <h2 className="text-xl font-bold text-white">{test ? 'Edit Grand Test' : 'Log Grand Test'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Test name</label>
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Marrow GT 4" className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Taken on</label>
+              <input type="datetime-local" value={when} onChange={e => setWhen(e.target.value)} className={`${inputClass} [color-scheme:dark]`} required />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Score / {test?.maxScore ?? NEET_PG_MAX_SCORE}</label>
+              <input type="number" value={totalScore} onChange={e => setTotalScore(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Rank</label>
+              <input type="number" min={1} value={rank} onChange={e => setRank(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Percentile</label>
+              <input type="number" min={0} max={100} step="0.01" value={percentile} onChange={e => setPercentile(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-slate-300">Subject-wise marks</label>
+              <button
+                type="button"
+                onClick={() => setRows(prev => [...prev, { subject: '', marks: '', maxMarks: '' }])}
+                className="text-xs text-brand-400 hover:text-brand-300 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add subject
+              </button>
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-xs text-slate-500">Optional, but needed to find weak subjects across tests.</p>
+            ) : (
+              <div className="space-y-2">
+                <datalist id="mock-test-subjects">
+                  {subjects.map((s, i) => <option key={i} value={s} />)}
+                </datalist>
+                {rows.map((row, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_5rem_5rem_auto] gap-2 items-center">
+                    <input list="mock-test-subjects" value={row.subject} onChange={e => updateRow(i, { subject: e.target.value })} placeholder="Subject" className={inputClass} />
+                    <input type="number" value={row.marks} onChange={e => updateRow(i, { marks: e.target.value })} placeholder="Marks" className={inputClass} />
+                    <input type="number" min={1} value={row.maxMarks} onChange={e => updateRow(i, { maxMarks: e.target.value })} placeholder="Out of" className={inputClass} />
+                    <button type="button" onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} className="p-2 text-slate-500 hover:text-red-400 transition-colors">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Notes</label>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={inputClass} />
+          </div>
+
+          {score !== undefined && Number.isFinite(score) && (
+            <p className="text-sm text-slate-400">
+              {getScorePercent(score, test?.maxScore ?? NEET_PG_MAX_SCORE)}% of the maximum score
+            </p>
+          )}
+
+          {errors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-900/50 rounded-lg p-3 space-y-1">
+              {errors.map((error, i) => (
+                <p key={i} className="text-sm text-red-300 flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="button" variant="ghost" onClick={onClose} className="flex-1">Cancel</Button>
+            <Button type="submit" className="flex-1">{test ? 'Save Changes' : 'Save Test'}</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { Plus, Pencil, Trash2, GraduationCap } from 'lucide-react';
+import { Button } from './Button';
+import { MockTest, StudySession } from '../types';
+import { SyllabusIndex } from '../services/syllabus';
+import { getScorePercent, getScoreTrend, getTestPreparation, getWeakestSubjects } from '../services/mockTests';
+
+interface MockTestsViewProps {
+  tests: MockTest[];
+  sessions: StudySession[];
+  syllabusIndex: SyllabusIndex;
+  onAdd: () => void;
+  onEdit: (test: MockTest) => void;
+  onDelete: (test: MockTest) => void;
+}
+
+const percentColor = (percent: number) =>
+  percent >= 65 ? 'text-green-400' : percent >= 45 ? 'text-yellow-400' : 'text-red-400';
+
+export const MockTestsView: React.FC<MockTestsViewProps> = ({ tests, sessions, syllabusIndex, onAdd, onEdit, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (tests.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto text-center py-20 animate-fade-in">
+        <div className="w-16 h-16 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-6">
+          <GraduationCap className="w-8 h-8 text-brand-400" />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-2">No Grand Tests yet</h2>
+        <p className="text-slate-400 mb-8">Log your mock exam scores to follow your score, rank and weakest subjects over time.</p>
+        <Button onClick={onAdd} size="lg">
+          <Plus className="w-5 h-5 mr-2" /> Log Grand Test
+        </Button>
+      </div>
+    );
+  }
+
+  const trend = getScoreTrend(tests);
+  const weakest = getWeakestSubjects(tests);
+  const latest = tests.reduce((a, b) => (b.date > a.date ? b : a));
+  const best = tests.reduce((a, b) => (b.totalScore > a.totalScore ? b : a));
+  const percentiles = tests.map(t => t.percentile).filter((p): p is number => p !== undefined);
+
+  const selected = tests.find(t => t.id === selectedId) ?? latest;
+  const preparation = getTestPreparation(selected, tests, sessions, syllabusIndex);
+  const hasPrevious = tests.some(t => t.date < selected.date);
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Tests Taken</p>
+          <span className="mt-2 block text-4xl font-bold text-white">{tests.length}</span>
+        </div>
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Latest</p>
+          <div className="mt-2 flex items-baseline gap-2">
+            <span className="text-4xl font-bold text-white">{latest.totalScore}</span>
+            <span className="text-sm text-slate-400">/ {latest.maxScore}</span>
+          </div>
+        </div>
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Best</p>
+          <div className="mt-2 flex items-baseline gap-2">
+            <span className="text-4xl font-bold text-brand-400">{best.totalScore}</span>
+            <span className="text-sm text-slate-400 truncate">{best.name}</span>
+          </div>
+        </div>
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Best Percentile</p>
+          <span className="mt-2 block text-4xl font-bold text-white">{percentiles.length ? Math.max(...percentiles) : '–'}</span>
+        </div>
+      </div>
+
+      {/* Trend Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-lg font-semibold text-white">Score Trend</h3>
+            <Button onClick={onAdd} size="sm">
+              <Plus className="w-4 h-4 mr-1" /> Log Test
+            </Button>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} domain={[0, latest.maxScore]} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                  itemStyle={{ color: '#e2e8f0' }}
+                  labelFormatter={(_, payload) => payload?.[0]?.payload.name ?? ''}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="score"
+                  name="Score"
+                  stroke="#3b82f6"
+                  strokeWidth={3}
+                  dot={{ fill: '#3b82f6', strokeWidth: 2 }}
+                  activeDot={{ r: 6, fill: '#fff' }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+          <h3 className="text-lg font-semibold text-white mb-6">Percentile & Rank</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis yAxisId="percentile" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} domain={[0, 100]} />
+                {/* Lower ranks are better, so the rank axis runs top-down */}
+                <YAxis yAxisId="rank" orientation="right" reversed stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                  itemStyle={{ color: '#e2e8f0' }}
+                  labelFormatter={(_, payload) => payload?.[0]?.payload.name ?? ''}
+                />
+                <Line
+                  yAxisId="percentile"
+                  type="monotone"
+                  dataKey="percentile"
+                  name="Percentile"
+                  stroke="#a855f7"
+                  strokeWidth={3}
+                  connectNulls
+                  dot={{ fill: '#a855f7', strokeWidth: 2 }}
+                  activeDot={{ r: 6, fill: '#fff' }}
+                />
+                <Line
+                  yAxisId="rank"
+                  type="monotone"
+                  dataKey="rank"
+                  name="Rank"
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  strokeDasharray="4 4"
+                  connectNulls
+                  dot={{ fill: '#f59e0b', strokeWidth: 2 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Weakest Subjects */}
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm flex flex-col">
+          <h3 className="text-lg font-semibold text-white mb-1">Weakest Subjects</h3>
+          <p className="text-sm text-slate-400 mb-4">Average share of marks across all tests</p>
+          {weakest.length === 0 ? (
+            <p className="text-sm text-slate-500">Add subject-wise marks to your tests to rank subjects.</p>
+          ) : (
+            <div className="space-y-3 overflow-y-auto max-h-72 pr-2">
+              {weakest.map(s => (
+                <div key={s.subject}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-slate-200 truncate">{s.subject}</span>
+                    <span className="shrink-0">
+                      <span className={`font-bold ${percentColor(s.averagePercent)}`}>{s.averagePercent}%</span>
+                      <span className="text-xs text-slate-500"> • latest {s.latestPercent}% • {s.testsCount} tests</span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden">
+                    <div className="bg-brand-500 h-full" style={{ width: `${Math.max(0, s.averagePercent)}%` }}></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Test List */}
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm flex flex-col">
+          <h3 className="text-lg font-semibold text-white mb-4">All Tests</h3>
+          <div className="space-y-2 overflow-y-auto max-h-80 pr-2">
+            {[...tests].sort((a, b) => b.date - a.date).map(test => (
+              <div
+                key={test.id}
+                onClick={() => setSelectedId(test.id)}
+                className={`p-3 rounded-lg flex justify-between items-center border cursor-pointer transition-colors ${
+                  test.id === selected.id ? 'bg-brand-600/10 border-brand-600/40' : 'bg-slate-900/50 border-slate-800 hover:border-slate-600'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{test.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(test.date).toLocaleDateString()}
+                    {test.rank !== undefined && <> • Rank {test.rank}</>}
+                    {test.percentile !== undefined && <> • {test.percentile} %ile</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-lg font-bold text-white">{test.totalScore}</span>
+                  <button onClick={e => { e.stopPropagation(); onEdit(test); }} className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700 transition-colors" title="Edit test">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={e => { e.stopPropagation(); onDelete(test); }} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-700 transition-colors" title="Delete test">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Preparation vs Marks */}
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+        <h3 className="text-lg font-semibold text-white mb-1">{selected.name}: Study Hours vs Marks</h3>
+        <p className="text-sm text-slate-400 mb-4">
+          {getScorePercent(selected.totalScore, selected.maxScore)}% overall. Hours are sessions logged for each subject before the test
+          {hasPrevious ? ', and since the previous test.' : '.'}
+        </p>
+        {preparation.length === 0 ? (
+          <p className="text-sm text-slate-500">This test has no subject-wise marks.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-slate-400 uppercase tracking-wider border-b border-slate-700">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Subject</th>
+                  <th className="py-2 pr-4 font-medium text-right">Marks</th>
+                  {hasPrevious && <th className="py-2 pr-4 font-medium text-right">Hours since last test</th>}
+                  <th className="py-2 font-medium text-right">Hours before test</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {preparation.map(p => (
+                  <tr key={p.subject}>
+                    <td className="py-2 pr-4 text-slate-200">{p.subject}</td>
+                    <td className={`py-2 pr-4 text-right font-bold ${percentColor(p.percent)}`}>{p.percent}%</td>
+                    {hasPrevious && <td className="py-2 pr-4 text-right text-slate-300">{p.hoursSincePrevious}h</td>}
+                    <td className="py-2 text-right text-slate-300">{p.hoursBefore}h</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {selected.notes && <p className="text-sm text-slate-400 italic mt-4">"{selected.notes}"</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from './Button';
+import { profileInitial } from './ProfileSwitcher';
+import {
+  getActiveProfile,
+  isProfileUnlocked,
+  loadProfiles,
+  markProfileUnlocked,
+  switchProfile,
+  verifyProfilePin
+} from '../services/profiles';
+
+// Keeps the app unmounted until a PIN-locked profile is unlocked, so none of
+// its data is read before then
+export const ProfileGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [profile] = useState(getActiveProfile);
+  const [unlocked, setUnlocked] = useState(() => isProfileUnlocked(profile));
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  if (unlocked) return <>{children}</>;
+
+  const others = loadProfiles().profiles.filter(p => p.id !== profile.id);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    const valid = await verifyProfilePin(profile, pin);
+    setIsChecking(false);
+    if (!valid) {
+      setError("Wrong PIN.");
+      setPin('');
+      return;
+    }
+    markProfileUnlocked(profile.id);
+    setUnlocked(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-slate-800 rounded-2xl border border-slate-700 shadow-xl p-6 space-y-6">
+        <div className="flex flex-col items-center text-center gap-3">
+          <div className="w-14 h-14 rounded-full bg-slate-900 border border-slate-700 flex items-center justify-center text-xl font-bold text-slate-300">
+            {profileInitial(profile)}
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-white">{profile.name}</h2>
+            <p className="text-sm text-slate-400 flex items-center justify-center gap-1">
+              <Lock className="w-3 h-3" /> Enter the PIN to open this profile
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={pin}
+            onChange={e => { setPin(e.target.value.replace(/\D/g, '')); setError(null); }}
+            maxLength={8}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-center text-lg tracking-[0.5em] text-white focus:ring-1 focus:ring-brand-500 outline-none"
+            placeholder="PIN"
+          />
+          {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+          <Button type="submit" className="w-full" disabled={pin.length < 4} isLoading={isChecking}>
+            Unlock
+          </Button>
+        </form>
+
+        {others.length > 0 && (
+          <div className="border-t border-slate-700 pt-4">
+            <p className="text-xs text-slate-500 mb-2">Not you? Switch profile</p>
+            <div className="flex flex-wrap gap-2">
+              {others.map(p => (
+                <Button key={p.id} size="sm" variant="secondary" onClick={() => switchProfile(p.id)}>
+                  {p.pinHash && <Lock className="w-3 h-3 mr-1" />} {p.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
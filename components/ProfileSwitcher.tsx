@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Lock, Settings } from 'lucide-react';
+import { StudyProfile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: StudyProfile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onLock: () => void;
+  onManage: () => void;
+}
+
+export const profileInitial = (profile: StudyProfile) => profile.name.trim().charAt(0).toUpperCase() || '?';
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeId, onSwitch, onLock, onManage }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = profiles.find(p => p.id === activeId) ?? profiles[0];
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 rounded-full hover:bg-slate-800 transition-colors pr-2"
+        title="Switch profile"
+      >
+        <span className="w-8 h-8 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-xs font-bold text-slate-300">
+          {profileInitial(active)}
+        </span>
+        <span className="hidden sm:inline text-sm text-slate-300 max-w-[8rem] truncate">{active.name}</span>
+        <ChevronDown className="w-4 h-4 text-slate-500" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-60 bg-slate-800 border border-slate-700 rounded-xl shadow-xl py-2 animate-fade-in">
+          <p className="px-4 pb-2 text-xs text-slate-500">Profiles on this device</p>
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => choose(() => onSwitch(profile.id))}
+              disabled={profile.id === active.id}
+              className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left text-slate-200 hover:bg-slate-700/60 disabled:hover:bg-transparent transition-colors"
+            >
+              <span className="w-6 h-6 rounded-full bg-slate-900 border border-slate-700 flex items-center justify-center text-[10px] font-bold text-slate-400 shrink-0">
+                {profileInitial(profile)}
+              </span>
+              <span className="flex-1 truncate">{profile.name}</span>
+              {profile.pinHash && <Lock className="w-3 h-3 text-slate-500" />}
+              {profile.id === active.id && <Check className="w-4 h-4 text-brand-400" />}
+            </button>
+          ))}
+          <div className="border-t border-slate-700 mt-2 pt-2">
+            {active.pinHash && (
+              <button
+                onClick={() => choose(onLock)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-sm text-slate-300 hover:bg-slate-700/60 transition-colors"
+              >
+                <Lock className="w-4 h-4" /> Lock {active.name}
+              </button>
+            )}
+            <button
+              onClick={() => choose(onManage)}
+              className="w-full flex items-center gap-3 px-4 py-2 text-sm text-slate-300 hover:bg-slate-700/60 transition-colors"
+            >
+              <Settings className="w-4 h-4" /> Manage profiles
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
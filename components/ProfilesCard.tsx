@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Check, KeyRound, Lock, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import { Button } from './Button';
+import { profileInitial } from './ProfileSwitcher';
+import { StudyProfile } from '../types';
+import { PIN_PATTERN } from '../services/profiles';
+
+interface ProfilesCardProps {
+  profiles: StudyProfile[];
+  activeId: string;
+  onCreate: (name: string, pin: string | null) => void;
+  onRename: (name: string) => void;
+  onSetPin: (pin: string | null) => void;
+  onSwitch: (id: string) => void;
+  onDelete: (profile: StudyProfile) => void;
+}
+
+type Editing = { kind: 'NAME' | 'PIN'; value: string } | null;
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none";
+
+export const ProfilesCard: React.FC<ProfilesCardProps> = ({ profiles, activeId, onCreate, onRename, onSetPin, onSwitch, onDelete }) => {
+  const [editing, setEditing] = useState<Editing>(null);
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState('');
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    profiles.some(p => p.id !== exceptId && p.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const editError = !editing ? null
+    : editing.kind === 'NAME'
+      ? (!editing.value.trim() ? 'Enter a name.' : nameTaken(editing.value, activeId) ? 'Another profile has this name.' : null)
+      : (!PIN_PATTERN.test(editing.value) ? 'Use 4 to 8 digits.' : null);
+
+  const createError = !newName.trim() ? null
+    : nameTaken(newName) ? 'Another profile has this name.'
+    : newPin && !PIN_PATTERN.test(newPin) ? 'Use 4 to 8 digits for the PIN.'
+    : null;
+
+  const saveEdit = () => {
+    if (!editing || editError) return;
+    if (editing.kind === 'NAME') onRename(editing.value);
+    else onSetPin(editing.value);
+    setEditing(null);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim() || createError) return;
+    onCreate(newName, newPin || null);
+    setNewName('');
+    setNewPin('');
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-violet-500/10 rounded-lg">
+            <Users className="w-6 h-6 text-violet-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Profiles</h3>
+            <p className="text-sm text-slate-400">Each person on this device gets their own sessions, MCQ logs, plan and settings. Backups cover only the current profile.</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {profiles.map(profile => {
+            const isActive = profile.id === activeId;
+            return (
+              <div key={profile.id} className="p-3 rounded-lg border border-slate-700 bg-slate-900/40 space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className="w-8 h-8 rounded-full bg-slate-900 border border-slate-700 flex items-center justify-center text-xs font-bold text-slate-300 shrink-0">
+                    {profileInitial(profile)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{profile.name}</p>
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      {profile.pinHash ? <><Lock className="w-3 h-3" /> PIN lock</> : 'No PIN'}
+                      {isActive && <span className="text-brand-400"> • Current</span>}
+                    </p>
+                  </div>
+                  {isActive ? (
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="ghost" title="Rename" onClick={() => setEditing({ kind: 'NAME', value: profile.name })}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" title={profile.pinHash ? 'Change PIN' : 'Set a PIN'} onClick={() => setEditing({ kind: 'PIN', value: '' })}>
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                      {profile.pinHash && (
+                        <Button size="sm" variant="ghost" title="Remove PIN" onClick={() => onSetPin(null)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="secondary" onClick={() => onSwitch(profile.id)}>Switch</Button>
+                      <Button size="sm" variant="ghost" title="Delete profile" onClick={() => onDelete(profile)}>
+                        <Trash2 className="w-4 h-4 text-red-400" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {isActive && editing && (
+                  <div className="space-y-1">
+                    <div className="flex gap-2">
+                      <input
+                        type={editing.kind === 'PIN' ? 'password' : 'text'}
+                        inputMode={editing.kind === 'PIN' ? 'numeric' : undefined}
+                        autoFocus
+                        value={editing.value}
+                        maxLength={editing.kind === 'PIN' ? 8 : 40}
+                        onChange={e => setEditing({ ...editing, value: editing.kind === 'PIN' ? e.target.value.replace(/\D/g, '') : e.target.value })}
+                        onKeyDown={e => e.key === 'Enter' && saveEdit()}
+                        placeholder={editing.kind === 'PIN' ? 'New PIN (4-8 digits)' : 'Profile name'}
+                        className={`flex-1 ${inputClass}`}
+                      />
+                      <Button size="sm" onClick={saveEdit} disabled={!!editError}>
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {editError && editing.value && <p className="text-xs text-amber-400">{editError}</p>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-300">Add a profile</p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={newName}
+              maxLength={40}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="Name"
+              className={`flex-1 ${inputClass}`}
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={newPin}
+              maxLength={8}
+              onChange={e => setNewPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN (optional)"
+              className={`sm:w-40 ${inputClass}`}
+            />
+            <Button onClick={handleCreate} disabled={!newName.trim() || !!createError}>
+              <Plus className="w-4 h-4 mr-2" /> Add
+            </Button>
+          </div>
+          {createError && <p className="text-xs text-amber-400">{createError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
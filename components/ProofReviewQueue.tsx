@@ -0,0 +1,124 @@
+import React from 'react';
+import { AlertTriangle, Check, CheckCircle2, Loader2, RotateCcw, X } from 'lucide-react';
+import { Button } from './Button';
+import { PROOF_FAILURE_TITLES, ProofReviewItem, canOverrideProof } from '../services/mcqProof';
+
+interface ProofReviewQueueProps {
+  items: ProofReviewItem[];
+  subjects: string[];
+  onUpdate: (id: string, patch: Partial<Pick<ProofReviewItem, 'count' | 'subject'>>) => void;
+  onConfirm: (item: ProofReviewItem) => void;
+  onConfirmAllVerified: () => void;
+  onDiscard: (item: ProofReviewItem) => void;
+  onRetry: (item: ProofReviewItem) => void;
+}
+
+const RETRYABLE = ['NETWORK', 'QUOTA', 'INVALID_RESPONSE', 'UNKNOWN'];
+
+export const ProofReviewQueue: React.FC<ProofReviewQueueProps> = ({
+  items, subjects, onUpdate, onConfirm, onConfirmAllVerified, onDiscard, onRetry
+}) => {
+  const checking = items.filter(i => i.status === 'CHECKING').length;
+  const verified = items.filter(i => i.status === 'VERIFIED').length;
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none";
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Review Proofs</h3>
+          <p className="text-sm text-slate-400">
+            {checking > 0 ? `Checking ${checking} of ${items.length}…` : 'Confirm, correct or discard each image before it is logged'}
+          </p>
+        </div>
+        {verified > 1 && (
+          <Button size="sm" onClick={onConfirmAllVerified}>
+            <Check className="w-4 h-4 mr-2" /> Confirm {verified} Verified
+          </Button>
+        )}
+      </div>
+
+      <datalist id="proof-subjects">
+        {subjects.map(s => <option key={s} value={s} />)}
+      </datalist>
+
+      <div className="space-y-3">
+        {items.map(item => {
+          const overridable = canOverrideProof(item);
+          return (
+            <div key={item.id} className="flex gap-4 p-3 rounded-lg border border-slate-700 bg-slate-900/40">
+              <a href={item.previewUrl} target="_blank" rel="noreferrer" className="shrink-0">
+                <img src={item.previewUrl} alt={item.file.name} className="w-20 h-20 object-cover rounded-lg border border-slate-700" />
+              </a>
+
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center gap-2">
+                  {item.status === 'CHECKING' && <Loader2 className="w-4 h-4 text-brand-400 animate-spin shrink-0" />}
+                  {item.status === 'VERIFIED' && <CheckCircle2 className="w-4 h-4 text-green-400 shrink-0" />}
+                  {item.status === 'FAILED' && <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0" />}
+                  <p className="text-sm font-medium text-white truncate">
+                    {item.status === 'CHECKING' && 'Checking…'}
+                    {item.status === 'VERIFIED' && `AI counted ${item.aiCount} MCQs`}
+                    {item.status === 'FAILED' && PROOF_FAILURE_TITLES[item.failureKind!]}
+                  </p>
+                  <span className="text-xs text-slate-500 truncate">{item.file.name}</span>
+                </div>
+                {item.feedback && (
+                  <p className={`text-xs ${item.status === 'FAILED' ? 'text-amber-300/80' : 'text-slate-400'}`}>{item.feedback}</p>
+                )}
+
+                {(item.status === 'VERIFIED' || overridable) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={item.count || ''}
+                      onChange={e => onUpdate(item.id, { count: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                      className={`${inputClass} w-24`}
+                      placeholder="MCQs"
+                      aria-label="MCQ count"
+                    />
+                    <input
+                      list="proof-subjects"
+                      value={item.subject}
+                      onChange={e => onUpdate(item.id, { subject: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-[8rem]`}
+                      placeholder="Subject (optional)"
+                    />
+                    <Button size="sm" variant={item.status === 'VERIFIED' ? 'primary' : 'secondary'} disabled={item.count <= 0} onClick={() => onConfirm(item)}>
+                      {item.status === 'VERIFIED' ? 'Confirm' : 'Log as Unverified'}
+                    </Button>
+                  </div>
+                )}
+                {item.status === 'VERIFIED' && item.count !== item.aiCount && (
+                  <p className="text-xs text-slate-500">A corrected count is logged as unverified.</p>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-1 shrink-0">
+                {item.status !== 'CHECKING' && (
+                  <button
+                    onClick={() => onDiscard(item)}
+                    className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                    title="Discard"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+                {item.status === 'FAILED' && RETRYABLE.includes(item.failureKind!) && (
+                  <button
+                    onClick={() => onRetry(item)}
+                    className="p-2 text-slate-500 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                    title="Retry check"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Play, CalendarClock, CheckCircle } from 'lucide-react';
+import { StudySession } from '../types';
+import { getRevisionSchedule, getDueRevisions, getRevisionLabel, TopicRevision } from '../services/revisionScheduler';
+
+interface RevisionQueueProps {
+  topics: string[];
+  sessions: StudySession[];
+  onStartRevision: (topic: string) => void;
+}
+
+export const RevisionQueue: React.FC<RevisionQueueProps> = ({ topics, sessions, onStartRevision }) => {
+  const schedule = getRevisionSchedule(topics, sessions);
+  const due = getDueRevisions(schedule);
+  const overdue = due.filter(r => r.status === 'OVERDUE');
+  const dueToday = due.filter(r => r.status === 'DUE');
+  const scheduled = schedule.filter(r => r.status === 'SCHEDULED').length;
+
+  // Nothing to show until at least one plan topic has been studied
+  if (scheduled === 0 && due.length === 0) return null;
+
+  const renderItem = (revision: TopicRevision) => (
+    <div key={revision.topic} className="bg-slate-900/50 p-3 rounded-lg flex justify-between items-center border border-slate-800">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-white truncate">{revision.topic}</p>
+        <p className="text-xs text-slate-400">
+          {getRevisionLabel(revision.revisionsDone)} due
+          {revision.daysOverdue > 0 && <span className="text-red-400"> • {revision.daysOverdue}d overdue</span>}
+          {revision.lastStudied && <> • last studied {new Date(revision.lastStudied).toLocaleDateString()}</>}
+        </p>
+      </div>
+      <button
+        onClick={() => onStartRevision(revision.topic)}
+        className="ml-3 shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-lg bg-brand-600 hover:bg-brand-500 text-white text-xs font-medium transition-colors"
+      >
+        <Play className="w-3 h-3 fill-current" /> Start
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <CalendarClock className="w-5 h-5 text-brand-400" />
+        <h3 className="text-lg font-semibold text-white">Revision Queue</h3>
+        <span className="ml-auto text-xs text-slate-500">{scheduled} topics scheduled later</span>
+      </div>
+
+      {due.length === 0 ? (
+        <p className="text-sm text-slate-400 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-500" /> All revisions are up to date.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {overdue.length > 0 && (
+            <div>
+              <p className="text-xs text-red-400 font-medium uppercase tracking-wider mb-2">Overdue ({overdue.length})</p>
+              <div className="space-y-2 max-h-64 overflow-y-auto pr-1">{overdue.map(renderItem)}</div>
+            </div>
+          )}
+          {dueToday.length > 0 && (
+            <div>
+              <p className="text-xs text-brand-300 font-medium uppercase tracking-wider mb-2">Due Today ({dueToday.length})</p>
+              <div className="space-y-2 max-h-64 overflow-y-auto pr-1">{dueToday.map(renderItem)}</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
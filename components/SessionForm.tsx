@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import { ConcentrationLevel, StudySession } from '../types';
+import { validateSessionDraft, getRangeDuration } from '../services/sessionValidation';
+import { clipPauses, getPausedSeconds } from '../services/distractions';
+import { toDateTimeInputValue, fromDateTimeInputValue } from '../utils/date';
+
+interface SessionFormProps {
+  session?: StudySession; // when set the form edits this session instead of adding one
+  sessions: StudySession[];
+  availableSubjects?: string[];
+  onSave: (session: Omit<StudySession, 'id'>) => void;
+  onClose: () => void;
+}
+
+export const SessionForm: React.FC<SessionFormProps> = ({ session, sessions, availableSubjects = [], onSave, onClose }) => {
+  const defaultEnd = Date.now();
+  const [subject, setSubject] = useState(session?.subject || '');
+  const [start, setStart] = useState(toDateTimeInputValue(session?.startTime ?? defaultEnd - 60 * 60 * 1000));
+  const [end, setEnd] = useState(toDateTimeInputValue(session?.endTime ?? defaultEnd));
+  const [concentration, setConcentration] = useState<ConcentrationLevel>(session?.concentration ?? 3);
+  const [notes, setNotes] = useState(session?.notes || '');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const startTime = fromDateTimeInputValue(start);
+  const endTime = fromDateTimeInputValue(end);
+  // Recorded pauses stay excluded from the duration when the times are edited
+  const pauses = clipPauses(session?.pauses, startTime, endTime);
+  const pausedSeconds = getPausedSeconds(pauses);
+  const previewMinutes = Number.isFinite(startTime) && Number.isFinite(endTime) && endTime > startTime
+    ? Math.round(Math.max(0, getRangeDuration(startTime, endTime) - pausedSeconds) / 60)
+    : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft = { subject, startTime, endTime };
+    const validationErrors = validateSessionDraft(draft, sessions, session?.id);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const { id, ...rest } = session ?? ({} as StudySession);
+    onSave({
+      ...rest,
+      subject: subject.trim(),
+      startTime,
+      endTime,
+      duration: Math.max(0, getRangeDuration(startTime, endTime) - pausedSeconds),
+      pauses: pauses.length ? pauses : undefined,
+      concentration,
+      notes: notes.trim() || undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <h2 className="text-xl font-bold text-white">{session ? 'Edit Session' : 'Add Session'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Subject</label>
+            <input
+              list="session-form-subjects"
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="e.g., Pharmacology - ANS"
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-brand-500 focus:outline-none"
+              required
+            />
+            {availableSubjects.length > 0 && (
+              <datalist id="session-form-subjects">
+                {availableSubjects.map((s, i) => (
+                  <option key={i} value={s} />
+                ))}
+              </datalist>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Start</label>
+              <input
+                type="datetime-local"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-brand-500 focus:outline-none [color-scheme:dark]"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">End</label>
+              <input
+                type="datetime-local"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-brand-500 focus:outline-none [color-scheme:dark]"
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 -mt-3">Duration: {Math.floor(previewMinutes / 60)}h {previewMinutes % 60}m{pausedSeconds > 0 && ` (excluding ${Math.round(pausedSeconds / 60)}m of recorded pauses)`}</p>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Concentration Level (1-5)</label>
+            <div className="flex justify-between gap-2">
+              {[1, 2, 3, 4, 5].map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setConcentration(level as ConcentrationLevel)}
+                  className={`flex-1 py-2 rounded-lg text-lg font-bold transition-all ${
+                    concentration === level
+                      ? 'bg-brand-600 text-white ring-2 ring-brand-400 ring-offset-2 ring-offset-slate-800'
+                      : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Notes (Optional)</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Chapters read, book used..."
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-brand-500 focus:outline-none h-20 resize-none"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-900/50 rounded-lg p-3 space-y-1">
+              {errors.map((error, i) => (
+                <p key={i} className="text-sm text-red-300 flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="button" variant="ghost" onClick={onClose} className="flex-1">Cancel</Button>
+            <Button type="submit" className="flex-1">{session ? 'Save Changes' : 'Add Session'}</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
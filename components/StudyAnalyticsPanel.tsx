@@ -0,0 +1,171 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { AlertTriangle, Info, TrendingUp } from 'lucide-react';
+import { FindingTone, StudyAnalytics, NEGLECT_DAYS } from '../services/studyAnalytics';
+import { formatPauseReason } from '../services/distractions';
+
+interface StudyAnalyticsPanelProps {
+  analytics: StudyAnalytics;
+}
+
+const TONE_STYLES: Record<FindingTone, { icon: React.ElementType; className: string }> = {
+  POSITIVE: { icon: TrendingUp, className: 'border-green-900/50 bg-green-500/10 text-green-400' },
+  WARNING: { icon: AlertTriangle, className: 'border-amber-900/50 bg-amber-500/10 text-amber-400' },
+  INFO: { icon: Info, className: 'border-brand-900/50 bg-brand-500/10 text-brand-400' },
+};
+
+export const StudyAnalyticsPanel: React.FC<StudyAnalyticsPanelProps> = ({ analytics }) => {
+  const { hours, subjects, findings, distractions } = analytics;
+  const activeHours = hours.filter(h => h.sessions > 0);
+
+  if (subjects.length === 0) {
+    return (
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-2">Study Analytics</h3>
+        <p className="text-sm text-slate-500">Log a few sessions to see where your focus is strongest.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Findings</h3>
+        <p className="text-sm text-slate-400 mb-4">Computed on this device from all sessions and MCQ logs</p>
+        {findings.length === 0 ? (
+          <p className="text-sm text-slate-500">Nothing stands out yet. Findings appear as patterns build up over more sessions.</p>
+        ) : (
+          <div className="space-y-3">
+            {findings.map(f => {
+              const { icon: Icon, className } = TONE_STYLES[f.tone];
+              return (
+                <div key={f.id} className={`flex items-start gap-3 p-3 rounded-lg border ${className}`}>
+                  <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="text-sm font-medium text-white">{f.title}</p>
+                    <p className="text-xs text-slate-400">{f.detail}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Focus by Start Hour</h3>
+        <p className="text-sm text-slate-400 mb-4">Average concentration of sessions started in each hour</p>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={activeHours}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="hour" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={h => `${h}:00`} />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} domain={[0, 5]} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                itemStyle={{ color: '#e2e8f0' }}
+                labelFormatter={h => `${h}:00 • ${activeHours.find(x => x.hour === h)?.sessions ?? 0} sessions`}
+              />
+              <Bar dataKey="avgConcentration" name="Avg focus" fill="#0ea5e9" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Distractions vs. Focus</h3>
+        <p className="text-sm text-slate-400 mb-4">Pauses and tab switches per focused hour, by the concentration you rated</p>
+        {distractions.trackedSessions === 0 ? (
+          <p className="text-sm text-slate-500">Pauses and tab switches are recorded for sessions timed with the Timer.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Focus</th>
+                  <th className="py-2 pr-4 font-medium text-right">Sessions</th>
+                  <th className="py-2 pr-4 font-medium text-right">Switches / h</th>
+                  <th className="py-2 font-medium text-right">Pauses / h</th>
+                </tr>
+              </thead>
+              <tbody>
+                {distractions.byConcentration.map(row => (
+                  <tr key={row.level} className="border-b border-slate-700/50 last:border-0">
+                    <td className="py-2 pr-4 text-slate-200">{row.level}/5</td>
+                    <td className="py-2 pr-4 text-right text-slate-300">{row.sessions}</td>
+                    <td className="py-2 pr-4 text-right text-slate-300">{row.switchesPerHour}</td>
+                    <td className="py-2 text-right text-slate-300">{row.pausesPerHour}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div>
+              <p className="text-xs text-slate-500 mb-2">
+                {distractions.pauseCount} pauses • {distractions.pausedMinutes}m paused • {distractions.tabSwitches} tab switches over {distractions.trackedSessions} timed sessions
+              </p>
+              {distractions.reasons.length === 0 ? (
+                <p className="text-sm text-slate-500">No pauses recorded.</p>
+              ) : (
+                <div className="space-y-2">
+                  {distractions.reasons.map(r => (
+                    <div key={r.reason ?? 'NONE'} className="flex justify-between text-sm">
+                      <span className="text-slate-200">{formatPauseReason(r.reason)}</span>
+                      <span className="text-slate-400">{r.count} × • {r.minutes}m</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4">Subjects</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                <th className="py-2 pr-4 font-medium">Subject</th>
+                <th className="py-2 pr-4 font-medium text-right">Hours</th>
+                <th className="py-2 pr-4 font-medium text-right">Avg session</th>
+                <th className="py-2 pr-4 font-medium text-right">Focus</th>
+                <th className="py-2 pr-4 font-medium text-right">MCQ acc.</th>
+                <th className="py-2 font-medium text-right">Last studied</th>
+              </tr>
+            </thead>
+            <tbody>
+              {subjects.map(s => (
+                <tr key={s.subject} className="border-b border-slate-700/50 last:border-0">
+                  <td className="py-2 pr-4 text-slate-200">{s.subject}</td>
+                  <td className="py-2 pr-4 text-right text-slate-300">{s.totalHours}h</td>
+                  <td className="py-2 pr-4 text-right text-slate-300">{s.avgSessionMinutes} min</td>
+                  <td className="py-2 pr-4 text-right text-slate-300">
+                    {s.avgConcentration}
+                    {s.focusChange !== null && s.focusChange !== 0 && (
+                      <span className={`ml-1 text-xs ${s.focusChange > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {s.focusChange > 0 ? '+' : ''}{s.focusChange}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-300">{s.mcqAccuracy !== null ? `${s.mcqAccuracy}%` : '—'}</td>
+                  <td className={`py-2 text-right ${s.daysSinceLast >= NEGLECT_DAYS ? 'text-amber-400' : 'text-slate-400'}`}>
+                    {s.daysSinceLast === 0 ? 'Today' : `${s.daysSinceLast}d ago`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { X, CalendarDays } from 'lucide-react';
+import { MCQLog, StudySession } from '../types';
+import { SyllabusIndex, getSessionSubjectGroup } from '../services/syllabus';
+import { getDailyMCQCounts, getDailyStudyHours } from '../services/goals';
+import { addLocalDays, getLocalDateString, startOfLocalDay, startOfLocalWeek } from '../utils/date';
+
+interface StudyHeatmapProps {
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  syllabusIndex: SyllabusIndex;
+}
+
+type HeatmapMetric = 'HOURS' | 'MCQS';
+
+const WEEKS = 53;
+const LEVEL_CLASSES = ['bg-slate-700/60', 'bg-brand-900', 'bg-brand-700', 'bg-brand-500', 'bg-brand-300'];
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Shade relative to the busiest day shown, in four steps above zero
+const getLevel = (value: number, max: number) => (value <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((value / max) * 4)));
+
+export const StudyHeatmap: React.FC<StudyHeatmapProps> = ({ sessions, mcqLogs, syllabusIndex }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('HOURS');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const now = Date.now();
+  const today = startOfLocalDay(now);
+  const firstWeek = addLocalDays(startOfLocalWeek(now), -7 * (WEEKS - 1));
+  const totals = metric === 'HOURS' ? getDailyStudyHours(sessions) : getDailyMCQCounts(mcqLogs);
+
+  // Columns are weeks (oldest first), rows are weekdays starting Monday
+  const weeks = Array.from({ length: WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const day = addLocalDays(firstWeek, w * 7 + d);
+      const key = getLocalDateString(day);
+      return { day, key, value: totals.get(key) || 0, future: day > today };
+    })
+  );
+  const visible = weeks.flat().filter(c => !c.future);
+  const max = Math.max(0, ...visible.map(c => c.value));
+  const activeDays = visible.filter(c => c.value > 0).length;
+  const total = visible.reduce((acc, c) => acc + c.value, 0);
+
+  // A month label sits above the first week that starts in that month
+  const monthLabels = weeks.map((week, i) => {
+    const month = new Date(week[0].day).getMonth();
+    return i === 0 || new Date(weeks[i - 1][0].day).getMonth() !== month
+      ? new Date(week[0].day).toLocaleDateString('en-US', { month: 'short' })
+      : '';
+  });
+
+  const formatValue = (value: number) => metric === 'HOURS' ? `${value.toFixed(1)}h` : `${value} MCQs`;
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Past 12 Months</h3>
+          <p className="text-sm text-slate-400">
+            {activeDays} active days • {metric === 'HOURS' ? `${total.toFixed(0)} hours` : `${total} MCQs`}
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg border border-slate-700">
+          {(['HOURS', 'MCQS'] as HeatmapMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${metric === m ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {m === 'HOURS' ? 'Study Hours' : 'MCQs'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-2">
+          <div className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-[3px] text-[10px] text-slate-500 pr-1">
+            <span>&nbsp;</span>
+            {WEEKDAY_LABELS.map((label, i) => <span key={i} className="leading-3">{label}</span>)}
+          </div>
+          {weeks.map((week, w) => (
+            <div key={w} className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-[3px]">
+              <span className="text-[10px] text-slate-500 h-3 leading-3 whitespace-nowrap w-3">{monthLabels[w]}</span>
+              {week.map(cell => (
+                <button
+                  key={cell.key}
+                  disabled={cell.future}
+                  onClick={() => setSelectedDay(cell.key)}
+                  title={cell.future ? undefined : `${new Date(cell.day).toLocaleDateString()}: ${formatValue(cell.value)}`}
+                  className={`w-3 h-3 rounded-sm ${cell.future ? 'invisible' : `${LEVEL_CLASSES[getLevel(cell.value, max)]} hover:ring-1 hover:ring-white`}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end items-center gap-1 mt-2 text-[10px] text-slate-500">
+        Less
+        {LEVEL_CLASSES.map(c => <span key={c} className={`w-3 h-3 rounded-sm ${c}`} />)}
+        More
+      </div>
+
+      {selectedDay && (
+        <DayDetail
+          day={selectedDay}
+          sessions={sessions.filter(s => getLocalDateString(s.startTime) === selectedDay)}
+          mcqLogs={mcqLogs.filter(l => getLocalDateString(l.timestamp) === selectedDay)}
+          syllabusIndex={syllabusIndex}
+          onClose={() => setSelectedDay(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface DayDetailProps {
+  day: string;
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  syllabusIndex: SyllabusIndex;
+  onClose: () => void;
+}
+
+const DayDetail: React.FC<DayDetailProps> = ({ day, sessions, mcqLogs, syllabusIndex, onClose }) => {
+  const totalSeconds = sessions.reduce((acc, s) => acc + s.duration, 0);
+  const avgConcentration = sessions.length
+    ? (sessions.reduce((acc, s) => acc + s.concentration, 0) / sessions.length).toFixed(1)
+    : '–';
+  const mcqCount = mcqLogs.reduce((acc, l) => acc + l.count, 0);
+
+  const bySubject = new Map<string, number>();
+  sessions.forEach(s => {
+    const group = getSessionSubjectGroup(syllabusIndex, s);
+    bySubject.set(group, (bySubject.get(group) || 0) + s.duration);
+  });
+  const subjects = Array.from(bySubject.entries()).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-brand-400" />
+            {new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' })}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-800">
+              <p className="text-2xl font-bold text-white">{(totalSeconds / 3600).toFixed(1)}h</p>
+              <p className="text-xs text-slate-500">{sessions.length} sessions</p>
+            </div>
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-800">
+              <p className="text-2xl font-bold text-brand-400">{avgConcentration}</p>
+              <p className="text-xs text-slate-500">avg focus</p>
+            </div>
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-800">
+              <p className="text-2xl font-bold text-white">{mcqCount}</p>
+              <p className="text-xs text-slate-500">MCQs</p>
+            </div>
+          </div>
+
+          {subjects.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Subjects</h3>
+              <div className="space-y-1">
+                {subjects.map(([subject, seconds]) => (
+                  <div key={subject} className="flex justify-between text-sm">
+                    <span className="text-slate-200 truncate">{subject}</span>
+                    <span className="text-slate-400 shrink-0">{Math.round(seconds / 60)} min</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sessions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Sessions</h3>
+              <div className="space-y-2">
+                {[...sessions].sort((a, b) => a.startTime - b.startTime).map(s => (
+                  <div key={s.id} className="bg-slate-900/50 p-3 rounded-lg border border-slate-800 text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="text-white truncate">{s.subject}</span>
+                      <span className="text-slate-400 shrink-0">{Math.round(s.duration / 60)} min • {s.concentration}/5</span>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {new Date(s.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} – {new Date(s.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {mcqLogs.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">MCQ Logs</h3>
+              <div className="space-y-2">
+                {mcqLogs.map(l => (
+                  <div key={l.id} className="flex justify-between gap-2 text-sm">
+                    <span className="text-slate-200 truncate">{l.subject ?? l.feedback}</span>
+                    <span className="text-brand-400 font-bold shrink-0">+{l.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sessions.length === 0 && mcqLogs.length === 0 && (
+            <p className="text-sm text-slate-500 text-center">Nothing logged on this day.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
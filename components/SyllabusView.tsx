@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Play, Library } from 'lucide-react';
+import { StudySession, SyllabusNode, SyllabusNodeProgress } from '../types';
+import {
+  SyllabusIndex,
+  getSyllabusProgress,
+  getCoveragePercent,
+  getOverallCoverage
+} from '../services/syllabus';
+
+interface SyllabusViewProps {
+  syllabus: SyllabusNode[];
+  index: SyllabusIndex;
+  sessions: StudySession[];
+  onStartTopic: (label: string) => void;
+}
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(1)}h`;
+
+const StatusBadge: React.FC<{ progress: SyllabusNodeProgress }> = ({ progress }) => {
+  if (progress.status === 'NOT_STARTED') {
+    return <span className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-slate-400">Not started</span>;
+  }
+  if (progress.status === 'READ') {
+    return <span className="text-xs px-2 py-0.5 rounded-full bg-brand-500/20 text-brand-300">Read</span>;
+  }
+  return <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-300">Revised ×{progress.revisions}</span>;
+};
+
+const CoverageBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div className="w-full bg-slate-700 h-2 rounded-full overflow-hidden">
+    <div className="bg-brand-500 h-full transition-all duration-700" style={{ width: `${percent}%` }}></div>
+  </div>
+);
+
+export const SyllabusView: React.FC<SyllabusViewProps> = ({ syllabus, index, sessions, onStartTopic }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const progress = getSyllabusProgress(index, sessions);
+  const overall = getOverallCoverage(index, progress);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: SyllabusNode, depth: number) => {
+    const nodeProgress = progress.get(node.id)!;
+    const isOpen = expanded.has(node.id);
+    const label = index.byId.get(node.id)!.label;
+    const percent = getCoveragePercent(nodeProgress);
+
+    if (node.kind === 'TOPIC') {
+      return (
+        <div key={node.id} className="flex items-center gap-3 py-2 pl-12 pr-2 border-t border-slate-700/50">
+          <span className="flex-1 text-sm text-slate-200 truncate">{node.title}</span>
+          <span className="text-xs text-slate-500 w-12 text-right">{formatHours(nodeProgress.totalSeconds)}</span>
+          <StatusBadge progress={nodeProgress} />
+          <button
+            onClick={() => onStartTopic(label)}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Study this topic"
+          >
+            <Play className="w-3 h-3 fill-current" />
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div key={node.id} className={depth === 0 ? 'bg-slate-800 rounded-xl border border-slate-700 overflow-hidden' : 'border-t border-slate-700/50'}>
+        <button
+          onClick={() => toggle(node.id)}
+          className={`w-full flex items-center gap-3 text-left hover:bg-slate-700/30 transition-colors ${depth === 0 ? 'p-4' : 'py-3 pl-8 pr-4'}`}
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />}
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between items-baseline gap-2 mb-1">
+              <span className={`truncate ${depth === 0 ? 'font-semibold text-white' : 'text-sm font-medium text-slate-200'}`}>{node.title}</span>
+              <span className="text-xs text-slate-400 shrink-0">
+                {nodeProgress.coveredTopics}/{nodeProgress.totalTopics} topics • {formatHours(nodeProgress.totalSeconds)}
+              </span>
+            </div>
+            <CoverageBar percent={percent} />
+          </div>
+          <span className="text-sm font-bold text-brand-400 w-12 text-right">{percent}%</span>
+        </button>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 flex items-center gap-6">
+        <div className="p-3 bg-brand-500/10 rounded-lg">
+          <Library className="w-8 h-8 text-brand-400" />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm text-slate-400 font-medium uppercase tracking-wider">Overall Syllabus Coverage</p>
+          <div className="mt-1 mb-3 flex items-baseline gap-2">
+            <span className="text-4xl font-bold text-white">{overall}%</span>
+            <span className="text-sm text-slate-400">of topics read at least once</span>
+          </div>
+          <CoverageBar percent={overall} />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        Sessions link to a topic when their subject matches its path, e.g. "Anatomy - Upper Limb - Brachial Plexus".
+      </p>
+      <div className="space-y-3">
+        {syllabus.map(node => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+};
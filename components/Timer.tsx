@@ -1,73 +1,164 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, Square, CheckCircle, Clock } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Play, Pause, Square, CheckCircle, Clock, Coffee, Repeat, Target } from 'lucide-react';
 import { Button } from './Button';
-import { ConcentrationLevel, StudySession } from '../types';
+import { ActiveTimerSnapshot, ConcentrationLevel, IntervalBlock, IntervalConfig, StudySession, TimerMode } from '../types';
+import {
+  getElapsedSeconds,
+  startTimer,
+  pauseTimer,
+  resumeTimer,
+  finishTimer,
+  INTERVAL_PRESETS,
+  loadIntervalConfig,
+  saveIntervalConfig,
+  getPhaseRemainingSeconds,
+  startIntervalTimer,
+  stopIntervalTimer,
+  setPauseReason,
+  getSessionDistractions
+} from '../services/timerStorage';
+import { primeAlertSound } from '../services/timerAlerts';
+import { PAUSE_REASON_LABELS, SELECTABLE_PAUSE_REASONS, getPausedSeconds } from '../services/distractions';
 
 interface TimerProps {
+  // The session lives in App so it keeps running (and alerting) on other views
+  snapshot: ActiveTimerSnapshot | null;
+  onSnapshotChange: React.Dispatch<React.SetStateAction<ActiveTimerSnapshot | null>>;
   onSessionComplete: (session: Omit<StudySession, 'id'>) => void;
+  // Records the partly done work block when an interval run is stopped early
+  onBlockComplete?: (session: Omit<StudySession, 'id'>) => void;
   onCancel: () => void;
   availableSubjects?: string[];
+  initialSubject?: string; // preselected topic, e.g. from the revision queue
 }
 
-export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, availableSubjects = [] }) => {
-  const [isActive, setIsActive] = useState(false);
-  const [seconds, setSeconds] = useState(0);
-  const [sessionState, setSessionState] = useState<'IDLE' | 'RUNNING' | 'PAUSED' | 'FINISHED'>('IDLE');
-  const [startTime, setStartTime] = useState<number | null>(null);
+const PHASE_LABELS = {
+  WORK: 'FOCUS BLOCK',
+  SHORT_BREAK: 'SHORT BREAK',
+  LONG_BREAK: 'LONG BREAK',
+};
+
+export const Timer: React.FC<TimerProps> = ({
+  snapshot, onSnapshotChange: setSnapshot, onSessionComplete, onBlockComplete, onCancel, availableSubjects = [], initialSubject
+}) => {
+  const [now, setNow] = useState(() => Date.now());
   
   // Form State
-  const [subject, setSubject] = useState('');
+  const [subject, setSubject] = useState(() => snapshot ? snapshot.subject || '' : initialSubject || '');
   const [concentration, setConcentration] = useState<ConcentrationLevel>(3);
   const [notes, setNotes] = useState('');
 
-  const intervalRef = useRef<number | null>(null);
+  // Interval State
+  const [idleMode, setIdleMode] = useState<TimerMode>('STOPWATCH');
+  const [intervalConfig, setIntervalConfig] = useState<IntervalConfig>(() => loadIntervalConfig());
+  const [runSummary, setRunSummary] = useState<IntervalBlock[] | null>(null);
+  const [targetMinutes, setTargetMinutes] = useState('');
+
+  const sessionState = snapshot ? snapshot.status : 'IDLE';
+  const seconds = snapshot ? getElapsedSeconds(snapshot, now) : 0;
+  const interval = snapshot?.interval;
+  const mode: TimerMode = snapshot ? (interval ? 'INTERVAL' : 'STOPWATCH') : idleMode;
 
+  // Following another link to the Timer (or back/forward between two) keeps
+  // this view mounted, so a new preselected subject is picked up here. A
+  // session in progress keeps its own subject.
   useEffect(() => {
-    if (isActive) {
-      intervalRef.current = window.setInterval(() => {
-        setSeconds((s) => s + 1);
-      }, 1000);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+    if (!snapshot) setSubject(initialSubject || '');
+  }, [initialSubject]);
+
+  useEffect(() => {
+    if (sessionState !== 'RUNNING') return;
+
+    // The interval only triggers a re-render; background tabs throttle it,
+    // but the displayed time is always derived from the stored timestamps.
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    const handleVisibility = () => setNow(Date.now());
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('focus', handleVisibility);
     return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('focus', handleVisibility);
     };
-  }, [isActive]);
+  }, [sessionState]);
 
   const toggleTimer = () => {
-    if (sessionState === 'IDLE') {
-      setStartTime(Date.now());
-      setSessionState('RUNNING');
-      setIsActive(true);
-    } else if (sessionState === 'RUNNING') {
-      setSessionState('PAUSED');
-      setIsActive(false);
-    } else if (sessionState === 'PAUSED') {
-      setSessionState('RUNNING');
-      setIsActive(true);
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setRunSummary(null);
+    primeAlertSound();
+    if (!snapshot) {
+      if (idleMode === 'INTERVAL') {
+        saveIntervalConfig(intervalConfig);
+        setSnapshot(startIntervalTimer(intervalConfig, concentration, subject || undefined, timestamp));
+      } else {
+        const target = Math.round(Number(targetMinutes) || 0);
+        setSnapshot({ ...startTimer(timestamp), subject: subject || undefined, ...(target > 0 ? { targetMinutes: target } : {}) });
+      }
+    } else if (snapshot.status === 'RUNNING') {
+      setSnapshot(pauseTimer(snapshot, timestamp));
+    } else if (snapshot.status === 'PAUSED') {
+      setSnapshot(resumeTimer(snapshot, timestamp));
     }
   };
 
   const stopTimer = () => {
-    setIsActive(false);
-    setSessionState('FINISHED');
+    if (!snapshot) return;
+    const timestamp = Date.now();
+    setNow(timestamp);
+
+    if (snapshot.interval) {
+      const partial = stopIntervalTimer(snapshot, timestamp);
+      const blocks = [...snapshot.interval.completedBlocks];
+      if (partial) {
+        onBlockComplete?.(partial);
+        blocks.push({ cycle: partial.cycle!, startTime: partial.startTime, endTime: partial.endTime, duration: partial.duration });
+      }
+      setSnapshot(null);
+      setRunSummary(blocks);
+      return;
+    }
+
+    setSnapshot(finishTimer(snapshot, timestamp));
+  };
+
+  const handleBlockConcentration = (level: ConcentrationLevel) => {
+    setConcentration(level);
+    setSnapshot(prev => prev?.interval ? { ...prev, interval: { ...prev.interval, concentration: level } } : prev);
+  };
+
+  const updateIntervalConfig = (field: keyof IntervalConfig, value: string) => {
+    const parsed = parseInt(value, 10);
+    setIntervalConfig(prev => ({ ...prev, [field]: Number.isFinite(parsed) && parsed > 0 ? parsed : 1 }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!startTime) return;
+    if (!snapshot) return;
 
+    const endTime = snapshot.endTime ?? Date.now();
+    setSnapshot(null);
     onSessionComplete({
       subject: subject || 'General Study',
-      startTime,
-      endTime: Date.now(),
-      duration: seconds,
+      startTime: snapshot.startTime,
+      endTime,
+      duration: getElapsedSeconds(snapshot, endTime),
       concentration,
-      notes
+      notes,
+      ...getSessionDistractions(snapshot, endTime),
     });
   };
 
+  const handleSubjectChange = (value: string) => {
+    setSubject(value);
+    setSnapshot(prev => prev ? { ...prev, subject: value } : prev);
+  };
+
+  const handleDiscard = () => {
+    setSnapshot(null);
+    onCancel();
+  };
+
   const formatTime = (totalSeconds: number) => {
     const h = Math.floor(totalSeconds / 3600);
     const m = Math.floor((totalSeconds % 3600) / 60);
@@ -82,6 +173,11 @@ export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, avail
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-2" />
           <h2 className="text-2xl font-bold text-white">Session Complete!</h2>
           <p className="text-slate-400">Time focused: {formatTime(seconds)}</p>
+          {(snapshot!.pauses?.length || snapshot!.tabSwitches) ? (
+            <p className="text-sm text-slate-500 mt-1">
+              {snapshot!.pauses?.length || 0} {snapshot!.pauses?.length === 1 ? 'pause' : 'pauses'} ({Math.round(getPausedSeconds(snapshot!.pauses) / 60)}m) • {snapshot!.tabSwitches || 0} tab switches
+            </p>
+          ) : null}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -91,7 +187,7 @@ export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, avail
               list="subjects-list"
               type="text"
               value={subject}
-              onChange={(e) => setSubject(e.target.value)}
+              onChange={(e) => handleSubjectChange(e.target.value)}
               placeholder="e.g., Mathematics, History..."
               className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-brand-500 focus:outline-none"
               required
@@ -143,7 +239,7 @@ export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, avail
           </div>
 
           <div className="flex gap-3">
-            <Button type="button" variant="ghost" onClick={onCancel} className="flex-1">Discard</Button>
+            <Button type="button" variant="ghost" onClick={handleDiscard} className="flex-1">Discard</Button>
             <Button type="submit" className="flex-1">Save Session</Button>
           </div>
         </form>
@@ -151,20 +247,170 @@ export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, avail
     );
   }
 
+  if (runSummary) {
+    const totalMinutes = Math.round(runSummary.reduce((acc, b) => acc + b.duration, 0) / 60);
+    return (
+      <div className="max-w-md mx-auto bg-slate-800 p-8 rounded-2xl shadow-xl border border-slate-700 animate-fade-in">
+        <div className="text-center mb-6">
+          <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-2" />
+          <h2 className="text-2xl font-bold text-white">Interval Run Complete</h2>
+          <p className="text-slate-400">{runSummary.length} blocks • {totalMinutes} minutes focused</p>
+        </div>
+        {runSummary.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center mb-6">No work block was long enough to record.</p>
+        ) : (
+          <div className="space-y-2 mb-6">
+            {runSummary.map(block => (
+              <div key={block.cycle} className="bg-slate-900/50 p-3 rounded-lg flex justify-between text-sm border border-slate-800">
+                <span className="text-white font-medium">Cycle {block.cycle}</span>
+                <span className="text-slate-400">
+                  {new Date(block.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})} – {new Date(block.endTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                </span>
+                <span className="text-brand-400 font-bold">{Math.round(block.duration / 60)}m</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-slate-500 text-center mb-4">Each block has been saved to your history.</p>
+        <div className="flex gap-3">
+          <Button variant="ghost" onClick={() => setRunSummary(null)} className="flex-1">New Run</Button>
+          <Button onClick={onCancel} className="flex-1">Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const awaitingNextBlock = !!interval && sessionState === 'PAUSED' && interval.phase === 'WORK' && snapshot!.accumulatedMs === 0;
+  const displaySeconds = interval ? getPhaseRemainingSeconds(snapshot!, now) : mode === 'INTERVAL' ? intervalConfig.workMinutes * 60 : seconds;
+
+  let statusLabel = sessionState === 'RUNNING' ? 'FOCUSING...' : sessionState === 'PAUSED' ? 'PAUSED' : 'READY';
+  if (interval) {
+    if (awaitingNextBlock) {
+      statusLabel = `BREAK OVER • CYCLE ${interval.completedBlocks.length + 1}`;
+    } else {
+      statusLabel = sessionState === 'PAUSED'
+        ? `PAUSED • ${PHASE_LABELS[interval.phase]}`
+        : interval.phase === 'WORK' ? `CYCLE ${interval.completedBlocks.length + 1}` : PHASE_LABELS[interval.phase];
+    }
+  }
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[50vh]">
+      {/* Mode & Interval Setup */}
+      {sessionState === 'IDLE' && (
+        <div className="w-full max-w-md mb-10 space-y-4">
+          <div className="grid grid-cols-2 gap-2 bg-slate-800 p-1 rounded-xl border border-slate-700">
+            {(['STOPWATCH', 'INTERVAL'] as TimerMode[]).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setIdleMode(m)}
+                className={`py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+                  idleMode === m ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {m === 'STOPWATCH' ? <Clock className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+                {m === 'STOPWATCH' ? 'Stopwatch' : 'Intervals'}
+              </button>
+            ))}
+          </div>
+
+          {idleMode === 'STOPWATCH' && (
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 flex items-center gap-3 animate-fade-in">
+              <Target className="w-5 h-5 text-brand-400 shrink-0" />
+              <label htmlFor="timer-target" className="flex-1 text-sm text-slate-300">Alert me after (minutes)</label>
+              <input
+                id="timer-target"
+                type="number"
+                min={1}
+                value={targetMinutes}
+                onChange={e => setTargetMinutes(e.target.value)}
+                placeholder="No target"
+                className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+              />
+            </div>
+          )}
+
+          {idleMode === 'INTERVAL' && (
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-4 animate-fade-in">
+              <div className="flex gap-2">
+                {INTERVAL_PRESETS.map(preset => {
+                  const active = JSON.stringify(preset.config) === JSON.stringify(intervalConfig);
+                  return (
+                    <button
+                      key={preset.label}
+                      type="button"
+                      onClick={() => setIntervalConfig(preset.config)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        active ? 'bg-brand-600/20 text-brand-300 ring-1 ring-brand-500' : 'bg-slate-900 text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {([
+                  ['workMinutes', 'Work (min)'],
+                  ['shortBreakMinutes', 'Break (min)'],
+                  ['longBreakMinutes', 'Long break'],
+                  ['cyclesBeforeLongBreak', 'Long every'],
+                ] as [keyof IntervalConfig, string][]).map(([field, label]) => (
+                  <div key={field}>
+                    <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={intervalConfig[field]}
+                      onChange={e => updateIntervalConfig(field, e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Subject for these blocks</label>
+                <input
+                  list="subjects-list"
+                  type="text"
+                  value={subject}
+                  onChange={(e) => handleSubjectChange(e.target.value)}
+                  placeholder="e.g., Pathology - Neoplasia"
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+                />
+                {availableSubjects.length > 0 && (
+                  <datalist id="subjects-list">
+                    {availableSubjects.map((s, i) => (
+                      <option key={i} value={s} />
+                    ))}
+                  </datalist>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Timer Circle */}
       <div className="relative mb-12">
-        <div className="absolute inset-0 bg-brand-500 blur-3xl opacity-20 rounded-full"></div>
+        <div className={`absolute inset-0 blur-3xl opacity-20 rounded-full ${interval && interval.phase !== 'WORK' ? 'bg-green-500' : 'bg-brand-500'}`}></div>
         <div className="relative w-72 h-72 rounded-full border-8 border-slate-700 flex items-center justify-center bg-slate-800/50 backdrop-blur-sm shadow-2xl">
           <div className="text-center">
-            <Clock className="w-8 h-8 text-brand-400 mx-auto mb-2 opacity-80" />
+            {interval && interval.phase !== 'WORK'
+              ? <Coffee className="w-8 h-8 text-green-400 mx-auto mb-2 opacity-80" />
+              : <Clock className="w-8 h-8 text-brand-400 mx-auto mb-2 opacity-80" />}
             <div className="text-6xl font-mono font-bold text-white tracking-wider">
-              {formatTime(seconds)}
+              {formatTime(displaySeconds)}
             </div>
             <div className="text-brand-300 mt-2 font-medium">
-              {sessionState === 'RUNNING' ? 'FOCUSING...' : sessionState === 'PAUSED' ? 'PAUSED' : 'READY'}
+              {statusLabel}
             </div>
+            {snapshot?.targetMinutes && (
+              <div className="text-xs text-slate-500 mt-1">
+                {seconds >= snapshot.targetMinutes * 60 ? 'Target reached' : `Target ${snapshot.targetMinutes}m`}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -191,6 +437,69 @@ export const Timer: React.FC<TimerProps> = ({ onSessionComplete, onCancel, avail
           </button>
         )}
       </div>
+
+      {/* Pause reason, while paused by the user */}
+      {snapshot?.currentPause && (
+        <div className="mt-8 flex flex-wrap items-center justify-center gap-2 animate-fade-in">
+          <span className="text-sm text-slate-500 mr-1">Why the pause?</span>
+          {SELECTABLE_PAUSE_REASONS.map(reason => (
+            <button
+              key={reason}
+              type="button"
+              onClick={() => setSnapshot(prev => prev && setPauseReason(prev, prev.currentPause?.reason === reason ? undefined : reason))}
+              className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                snapshot.currentPause!.reason === reason ? 'bg-brand-600 text-white' : 'bg-slate-800 border border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              {PAUSE_REASON_LABELS[reason]}
+            </button>
+          ))}
+        </div>
+      )}
+      {snapshot && !snapshot.currentPause && (snapshot.pauses?.length || snapshot.tabSwitches) ? (
+        <p className="mt-6 text-xs text-slate-500">
+          {snapshot.pauses?.length || 0} {snapshot.pauses?.length === 1 ? 'pause' : 'pauses'} • {snapshot.tabSwitches || 0} tab switches{interval ? ' this block' : ''}
+        </p>
+      ) : null}
+
+      {/* Per-cycle tally */}
+      {interval && (
+        <div className="w-full max-w-md mt-10 bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-300 font-medium truncate">{snapshot!.subject || 'General Study'}</span>
+            <span className="text-xs text-slate-500">
+              {interval.config.workMinutes}/{interval.config.shortBreakMinutes} • long break every {interval.config.cyclesBeforeLongBreak}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {interval.completedBlocks.map(block => (
+              <span key={block.cycle} className="w-8 h-8 rounded-full bg-brand-600 text-white text-xs font-bold flex items-center justify-center">
+                {block.cycle}
+              </span>
+            ))}
+            <span className="w-8 h-8 rounded-full border-2 border-dashed border-slate-600 text-slate-500 text-xs font-bold flex items-center justify-center">
+              {interval.completedBlocks.length + 1}
+            </span>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-2">Focus rating for recorded blocks</label>
+            <div className="flex gap-2">
+              {[1, 2, 3, 4, 5].map(level => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => handleBlockConcentration(level as ConcentrationLevel)}
+                  className={`flex-1 py-1.5 rounded-lg text-sm font-bold transition-colors ${
+                    interval.concentration === level ? 'bg-brand-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
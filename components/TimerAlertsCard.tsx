@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { BellRing, Volume2 } from 'lucide-react';
+import { Button } from './Button';
+import { TimerAlertSettings } from '../types';
+import { IDLE_MINUTE_OPTIONS, notificationsSupported, playAlertSound, primeAlertSound } from '../services/timerAlerts';
+
+interface TimerAlertsCardProps {
+  settings: TimerAlertSettings;
+  onChange: (settings: TimerAlertSettings) => void;
+}
+
+export const TimerAlertsCard: React.FC<TimerAlertsCardProps> = ({ settings, onChange }) => {
+  const [permission, setPermission] = useState(() => notificationsSupported() ? Notification.permission : 'denied');
+
+  const handleNotifications = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    onChange({ ...settings, notifications: enabled });
+  };
+
+  const handleSound = (enabled: boolean) => {
+    if (enabled) primeAlertSound();
+    onChange({ ...settings, sound: enabled });
+  };
+
+  const toggleClass = (on: boolean) =>
+    `w-11 h-6 rounded-full relative transition-colors shrink-0 disabled:opacity-50 ${on ? 'bg-brand-600' : 'bg-slate-700'}`;
+  const knobClass = (on: boolean) =>
+    `absolute top-0.5 w-5 h-5 rounded-full bg-white transition-all ${on ? 'left-[1.375rem]' : 'left-0.5'}`;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-yellow-500/10 rounded-lg">
+            <BellRing className="w-6 h-6 text-yellow-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Timer Alerts</h3>
+            <p className="text-sm text-slate-400">Signals when a block, break or target ends, on any screen. Saved on this device only.</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-slate-300">Browser notifications</p>
+            <p className="text-xs text-slate-500">
+              {!notificationsSupported()
+                ? 'Not supported in this browser.'
+                : permission === 'denied'
+                  ? 'Blocked. Allow notifications for this site in your browser settings.'
+                  : 'Shown even when the app is in the background.'}
+            </p>
+          </div>
+          <button
+            role="switch"
+            aria-checked={settings.notifications}
+            disabled={!notificationsSupported() || permission === 'denied'}
+            onClick={() => handleNotifications(!settings.notifications)}
+            className={toggleClass(settings.notifications)}
+          >
+            <span className={knobClass(settings.notifications)} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-slate-300">Sound</p>
+            <p className="text-xs text-slate-500">A short chime; plays while the app is open.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="ghost" onClick={playAlertSound} title="Play the chime">
+              <Volume2 className="w-4 h-4" />
+            </Button>
+            <button
+              role="switch"
+              aria-checked={settings.sound}
+              onClick={() => handleSound(!settings.sound)}
+              className={toggleClass(settings.sound)}
+            >
+              <span className={knobClass(settings.sound)} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-slate-300">Idle check</p>
+            <p className="text-xs text-slate-500">Ask "are you still studying?" after no activity or a hidden tab, and offer to remove the idle time.</p>
+          </div>
+          <select
+            value={settings.idleMinutes}
+            onChange={e => onChange({ ...settings, idleMinutes: Number(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-brand-500 outline-none"
+          >
+            {IDLE_MINUTE_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes === 0 ? 'Off' : `${minutes} min`}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+export const DEFAULT_NEET_PG_SUBJECTS = [
+  "Anatomy", 
+  "Physiology", 
+  "Biochemistry",
+  "Pathology", 
+  "Pharmacology", 
+  "Microbiology",
+  "Forensic Medicine", 
+  "Community Medicine (PSM)",
+  "ENT", 
+  "Ophthalmology",
+  "General Medicine", 
+  "General Surgery", 
+  "Obstetrics & Gynaecology", 
+  "Pediatrics",
+  "Orthopedics", 
+  "Radiology", 
+  "Dermatology", 
+  "Anesthesia", 
+  "Psychiatry"
+];
+
+// Default NEET PG syllabus as Subject -> Chapter -> Topics.
+// Built into typed SyllabusNode trees by services/syllabus.ts.
+export const DEFAULT_SYLLABUS_OUTLINE: Record<string, Record<string, string[]>> = {
+  "Anatomy": {
+    "General Anatomy & Embryology": ["General Embryology", "Histology", "Genetics"],
+    "Upper Limb": ["Brachial Plexus", "Shoulder & Axilla", "Arm, Forearm & Hand"],
+    "Lower Limb": ["Lumbosacral Plexus", "Gluteal Region & Thigh", "Leg & Foot"],
+    "Thorax": ["Heart & Mediastinum", "Lungs & Pleura"],
+    "Abdomen & Pelvis": ["Abdominal Wall & Inguinal Canal", "GI Tract", "Pelvis & Perineum"],
+    "Head & Neck": ["Cranial Nerves", "Triangles of Neck", "Orbit & Face"],
+    "Neuroanatomy": ["Brainstem", "Spinal Cord Tracts", "Cerebral Blood Supply"],
+  },
+  "Physiology": {
+    "General Physiology": ["Membrane Transport", "Body Fluids"],
+    "Nerve & Muscle": ["Action Potential", "Neuromuscular Junction", "Muscle Contraction"],
+    "Cardiovascular System": ["Cardiac Cycle", "ECG", "Regulation of BP"],
+    "Respiratory System": ["Lung Volumes", "Gas Transport", "Regulation of Respiration"],
+    "Renal Physiology": ["GFR & Clearance", "Tubular Function", "Acid-Base Balance"],
+    "Endocrine & Reproduction": ["Pituitary & Thyroid", "Adrenal", "Reproductive Physiology"],
+    "Central Nervous System": ["Sensory System", "Motor System", "Sleep & Higher Functions"],
+  },
+  "Biochemistry": {
+    "Biomolecules": ["Carbohydrate Chemistry", "Lipid Chemistry", "Proteins & Enzymes"],
+    "Metabolism": ["Carbohydrate Metabolism", "Lipid Metabolism", "Amino Acid Metabolism"],
+    "Molecular Biology": ["DNA Replication & Repair", "Transcription & Translation", "Molecular Techniques"],
+    "Vitamins & Minerals": ["Fat-Soluble Vitamins", "Water-Soluble Vitamins", "Minerals"],
+    "Clinical Biochemistry": ["Inborn Errors of Metabolism", "Lysosomal Storage Disorders"],
+  },
+  "Pathology": {
+    "General Pathology": ["Cell Injury", "Inflammation", "Hemodynamics", "Neoplasia", "Immunity"],
+    "Hematology": ["Anemias", "Leukemias & Lymphomas", "Hemostasis"],
+    "Systemic Pathology": ["CVS", "Respiratory", "Renal", "GIT & Liver", "CNS", "Endocrine"],
+  },
+  "Pharmacology": {
+    "General Pharmacology": ["Pharmacokinetics", "Pharmacodynamics", "Adverse Drug Reactions"],
+    "Autonomic Nervous System": ["Cholinergic Drugs", "Adrenergic Drugs"],
+    "CVS & Renal": ["Antihypertensives", "Antiarrhythmics", "Diuretics"],
+    "CNS": ["Antiepileptics", "Antipsychotics & Antidepressants", "Opioids"],
+    "Chemotherapy": ["Antibiotics", "Antitubercular Drugs", "Anticancer Drugs"],
+    "Endocrine & Autacoids": ["Antidiabetics", "Corticosteroids", "NSAIDs"],
+  },
+  "Microbiology": {
+    "General Microbiology": ["Sterilization", "Culture Media", "Bacterial Genetics"],
+    "Immunology": ["Antigens & Antibodies", "Hypersensitivity", "Immunodeficiency"],
+    "Systemic Bacteriology": ["Gram-Positive Cocci", "Gram-Negative Bacilli", "Mycobacteria"],
+    "Virology": ["DNA Viruses", "RNA Viruses", "HIV & Hepatitis"],
+    "Mycology & Parasitology": ["Fungi", "Protozoa", "Helminths"],
+  },
+  "Forensic Medicine": {
+    "Identification & Thanatology": ["Identification", "Postmortem Changes"],
+    "Injuries": ["Mechanical Injuries", "Firearm Injuries", "Asphyxial Deaths"],
+    "Toxicology": ["Corrosives & Metals", "Plant Poisons", "Snake Bite"],
+    "Medical Jurisprudence": ["Legal Procedures", "Sexual Offences"],
+  },
+  "Community Medicine (PSM)": {
+    "Epidemiology": ["Study Designs", "Screening", "Measures of Disease"],
+    "Biostatistics": ["Sampling", "Tests of Significance"],
+    "Communicable Diseases": ["Vaccine-Preventable Diseases", "Vector-Borne Diseases", "TB & Leprosy"],
+    "Health Programmes": ["National Health Programmes", "Immunization Schedule"],
+    "Nutrition & Environment": ["Nutrition", "Environment & Occupational Health"],
+  },
+  "ENT": {
+    "Ear": ["Anatomy of Ear", "Otitis Media", "Hearing Loss & Tests"],
+    "Nose & PNS": ["Epistaxis", "Sinusitis", "Nasal Tumours"],
+    "Larynx & Pharynx": ["Tonsils & Adenoids", "Vocal Cord Lesions", "Laryngeal Carcinoma"],
+  },
+  "Ophthalmology": {
+    "Anterior Segment": ["Cornea", "Lens & Cataract", "Uvea"],
+    "Glaucoma": ["Primary Open-Angle Glaucoma", "Angle-Closure Glaucoma"],
+    "Retina & Neuro-ophthalmology": ["Diabetic Retinopathy", "Retinal Detachment", "Visual Pathway"],
+    "Optics & Squint": ["Refractive Errors", "Strabismus"],
+  },
+  "General Medicine": {
+    "Cardiology": ["Heart Failure", "Ischemic Heart Disease", "Valvular Heart Disease"],
+    "Pulmonology": ["Asthma & COPD", "Interstitial Lung Disease", "Pneumonia"],
+    "Nephrology": ["AKI & CKD", "Glomerular Diseases", "Electrolytes"],
+    "Gastroenterology & Hepatology": ["Liver Diseases", "IBD", "Pancreatitis"],
+    "Neurology": ["Stroke", "Epilepsy", "Movement Disorders"],
+    "Endocrinology": ["Diabetes Mellitus", "Thyroid Disorders", "Adrenal Disorders"],
+    "Hematology & Rheumatology": ["Anemia Management", "SLE & Vasculitis", "Arthritis"],
+    "Infectious Diseases": ["Fever Syndromes", "HIV Management"],
+  },
+  "General Surgery": {
+    "General Principles": ["Shock & Fluids", "Trauma (ATLS)", "Burns"],
+    "GI Surgery": ["Esophagus & Stomach", "Hepatobiliary", "Colorectal", "Hernia"],
+    "Endocrine & Breast": ["Thyroid Surgery", "Breast Diseases"],
+    "Urology": ["Urolithiasis", "Prostate", "Testicular Tumours"],
+    "Vascular & Others": ["Arterial Disorders", "Venous Disorders", "Plastic Surgery"],
+  },
+  "Obstetrics & Gynaecology": {
+    "Obstetrics": ["Physiology of Pregnancy", "Antenatal Care", "Labour", "Hypertensive Disorders", "Postpartum Hemorrhage"],
+    "Gynaecology": ["Menstrual Disorders", "Infertility", "Contraception", "Gynaecological Oncology"],
+  },
+  "Pediatrics": {
+    "Growth & Development": ["Milestones", "Growth Charts"],
+    "Neonatology": ["Neonatal Resuscitation", "Neonatal Jaundice"],
+    "Nutrition": ["Malnutrition", "Vitamin Deficiencies"],
+    "Systemic Pediatrics": ["Pediatric Infections", "Congenital Heart Disease", "Genetic Syndromes"],
+  },
+  "Orthopedics": {
+    "Trauma": ["Upper Limb Fractures", "Lower Limb Fractures", "Spine Injuries"],
+    "Orthopedic Infections": ["Osteomyelitis", "Bone & Joint TB"],
+    "Bone Tumours & Others": ["Bone Tumours", "Peripheral Nerve Injuries", "Metabolic Bone Disease"],
+  },
+  "Radiology": {
+    "Radiation Physics": ["X-Ray & CT Basics", "Radiation Protection"],
+    "Diagnostic Radiology": ["Chest Radiology", "Neuroradiology", "GI Radiology"],
+    "Radiotherapy": ["Radiosensitivity", "Radioisotopes"],
+  },
+  "Dermatology": {
+    "Basics": ["Skin Lesions", "Histopathology Terms"],
+    "Infections": ["Bacterial & Fungal", "Leprosy", "STDs"],
+    "Dermatoses": ["Psoriasis", "Vesiculobullous Disorders", "Eczema"],
+  },
+  "Anesthesia": {
+    "Pharmacology of Anesthesia": ["Inhalational Agents", "IV Induction Agents", "Muscle Relaxants", "Local Anesthetics"],
+    "Airway & Monitoring": ["Airway Management", "Monitoring"],
+    "Regional & Resuscitation": ["Spinal & Epidural", "CPR"],
+  },
+  "Psychiatry": {
+    "Psychotic Disorders": ["Schizophrenia", "Other Psychoses"],
+    "Mood & Anxiety": ["Depression & Bipolar", "Anxiety Disorders", "OCD"],
+    "Substance Use": ["Alcohol", "Opioids & Others"],
+    "Others": ["Personality Disorders", "Child Psychiatry", "Psychopharmacology"],
+  },
+};
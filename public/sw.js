@@ -0,0 +1,121 @@
+// Service worker: offline app shell and runtime caching.
+// Bump CACHE_VERSION with every release so clients see the update prompt.
+
+const CACHE_VERSION = 'v4';
+const SHELL_CACHE = `focusflow-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `focusflow-runtime-${CACHE_VERSION}`;
+
+// Everything needed to render the app without a network
+const SHELL_URLS = [
+  './',
+  './index.html',
+  './manifest.json',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+];
+
+// Versioned third-party assets: libraries, fonts and icons never change under one URL
+const CDN_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'aistudiocdn.com',
+  'cdn-icons-png.flaticon.com',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache =>
+      // Cross-origin shell files come back opaque (status 0), which cache.add
+      // rejects, so they are fetched and stored directly. One failing must not
+      // block install.
+      Promise.all(SHELL_URLS.map(url =>
+        (url.startsWith('http')
+          ? fetch(url, { mode: 'no-cors' }).then(response => cache.put(url, response))
+          : cache.add(url)
+        ).catch(error => console.warn('Precache failed for', url, error))
+      ))
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('focusflow-') && key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks the waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Pages load fresh when online and fall back to the cached shell offline
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    // Only a real copy of the page replaces the offline shell: not an error
+    // page, nor a captive portal that redirected the request
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('./index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    return (await caches.match('./index.html')) || (await caches.match('./')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI calls and other writes always go to the network; the app queues them itself
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Timer alerts: tapping one brings the app forward, or opens it if it was closed
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow('./#/timer');
+    })
+  );
+});
@@ -0,0 +1,102 @@
+import { DailyStats, StudySession, SubjectDistribution } from "../types";
+import { SyllabusIndex, getSessionSubjectGroup } from "./syllabus";
+import { addLocalDays, diffLocalDays, getLocalDateString, startOfLocalDay, startOfLocalWeek } from "../utils/date";
+
+// Shared aggregation for Dashboard charts: everything takes a date range
+// and buckets sessions by local day, week or syllabus subject.
+
+export type RangePreset = '7D' | '30D' | '90D' | 'CUSTOM' | 'ALL';
+
+export interface DateRange {
+  start: number; // local midnight of the first day, inclusive
+  end: number; // local midnight after the last day, exclusive
+}
+
+export const RANGE_PRESET_DAYS: Partial<Record<RangePreset, number>> = { '7D': 7, '30D': 30, '90D': 90 };
+
+// Custom bounds are YYYY-MM-DD strings from <input type="date">; an empty
+// bound falls back to the first session or today.
+export const resolveRange = (
+  preset: RangePreset,
+  sessions: StudySession[],
+  custom: { from: string; to: string } = { from: '', to: '' },
+  now: number = Date.now()
+): DateRange => {
+  const tomorrow = addLocalDays(startOfLocalDay(now), 1);
+  const presetDays = RANGE_PRESET_DAYS[preset];
+  if (presetDays) return { start: addLocalDays(tomorrow, -presetDays), end: tomorrow };
+
+  const firstSession = sessions.length ? startOfLocalDay(Math.min(...sessions.map(s => s.startTime))) : startOfLocalDay(now);
+  if (preset === 'ALL') return { start: firstSession, end: tomorrow };
+
+  const start = custom.from ? new Date(`${custom.from}T00:00:00`).getTime() : firstSession;
+  const end = custom.to ? addLocalDays(new Date(`${custom.to}T00:00:00`).getTime(), 1) : tomorrow;
+  return end > start ? { start, end } : { start: end, end: addLocalDays(end, 1) };
+};
+
+export const getRangeDays = (range: DateRange) => diffLocalDays(range.start, range.end);
+
+export const filterSessionsInRange = (sessions: StudySession[], range: DateRange) =>
+  sessions.filter(s => s.startTime >= range.start && s.startTime < range.end);
+
+// One entry per day in the range, including days with nothing logged
+export const getDailyStats = (sessions: StudySession[], range: DateRange): DailyStats[] => {
+  const byDay = new Map<string, StudySession[]>();
+  filterSessionsInRange(sessions, range).forEach(s => {
+    const day = getLocalDateString(s.startTime);
+    byDay.set(day, [...(byDay.get(day) || []), s]);
+  });
+
+  return Array.from({ length: getRangeDays(range) }, (_, i) => {
+    const date = getLocalDateString(addLocalDays(range.start, i));
+    const daySessions = byDay.get(date) || [];
+    return {
+      date,
+      totalDuration: daySessions.reduce((acc, s) => acc + s.duration, 0) / 60,
+      avgConcentration: daySessions.length
+        ? daySessions.reduce((acc, s) => acc + s.concentration, 0) / daySessions.length
+        : 0,
+      sessionsCount: daySessions.length,
+    };
+  });
+};
+
+// Total seconds per syllabus subject, largest first
+export const getSubjectDistribution = (sessions: StudySession[], index: SyllabusIndex): SubjectDistribution[] => {
+  const totals = new Map<string, number>();
+  sessions.forEach(s => {
+    const group = getSessionSubjectGroup(index, s);
+    totals.set(group, (totals.get(group) || 0) + s.duration);
+  });
+  return Array.from(totals.entries())
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export interface WeekComparison {
+  weekStart: number;
+  hours: number;
+  changePercent: number | null; // against the week before; null when that week was empty
+}
+
+// Monday-based weeks overlapping the range, each compared with the week before it
+export const getWeekOverWeek = (sessions: StudySession[], range: DateRange): WeekComparison[] => {
+  const firstWeek = startOfLocalWeek(range.start);
+  const hoursIn = (weekStart: number) =>
+    sessions
+      .filter(s => s.startTime >= weekStart && s.startTime < addLocalDays(weekStart, 7))
+      .reduce((acc, s) => acc + s.duration, 0) / 3600;
+
+  const weeks: WeekComparison[] = [];
+  let previous = hoursIn(addLocalDays(firstWeek, -7));
+  for (let week = firstWeek; week < range.end; week = addLocalDays(week, 7)) {
+    const hours = hoursIn(week);
+    weeks.push({
+      weekStart: week,
+      hours: Math.round(hours * 10) / 10,
+      changePercent: previous > 0 ? Math.round(((hours - previous) / previous) * 100) : null,
+    });
+    previous = hours;
+  }
+  return weeks;
+};
@@ -0,0 +1,21 @@
+import { AIProvider, AIProviderId, AISettings, getBuildApiKey } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createOfflineProvider } from "./offlineProvider";
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'GEMINI', label: 'Google Gemini', description: 'Cloud model. Needs a Gemini API key and internet.' },
+  { id: 'OPENAI_COMPATIBLE', label: 'Local / OpenAI-compatible', description: 'A self-hosted model such as Ollama or LM Studio.' },
+  { id: 'OFFLINE', label: 'Offline', description: 'Rule-based analysis on this device. Cannot read proof images.' },
+];
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'GEMINI':
+      return createGeminiProvider(settings.geminiApiKey || getBuildApiKey());
+    case 'OPENAI_COMPATIBLE':
+      return createOpenAICompatibleProvider(settings.openAIBaseUrl, settings.openAIModel, settings.openAIApiKey);
+    case 'OFFLINE':
+      return createOfflineProvider();
+  }
+};
@@ -0,0 +1,255 @@
+import { ActionPriority, CoachWeakSubject, StudySession } from "../types";
+import { profileStorageKey } from "./profiles";
+import { isRecord } from "../utils/guards";
+
+// Provider-neutral AI layer. Views call the active provider and never a
+// vendor SDK directly, so Gemini, a self-hosted OpenAI-compatible model or
+// the offline provider can be swapped in Settings.
+
+export type AIProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'OFFLINE';
+
+export interface MCQProofResult {
+  verified: boolean;
+  count: number;
+  feedback: string;
+}
+
+// What a provider writes; ids, dates and metrics are added by the app (see coachReports)
+export interface CoachReportContent {
+  summary: string;
+  trends: string[];
+  weakSubjects: CoachWeakSubject[];
+  actionItems: { text: string; priority: ActionPriority; subject?: string }[];
+  focusTip: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  // `facts` are findings already computed locally over all data (see studyAnalytics)
+  generateCoachReport: (sessions: StudySession[], facts: string[]) => Promise<CoachReportContent>;
+  // Answers the last user message; `context` is a summary of the student's data (see coachContext)
+  chat: (history: ChatTurn[], context: string) => Promise<string>;
+  verifyMCQProof: (base64Image: string) => Promise<MCQProofResult>;
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  geminiApiKey: string; // falls back to the build-time API_KEY when empty
+  openAIBaseUrl: string; // e.g. http://localhost:11434/v1
+  openAIModel: string;
+  openAIApiKey: string;
+}
+
+// What went wrong, so callers can tell a dropped connection from a bad reply
+export type AIErrorKind = 'NETWORK' | 'QUOTA' | 'CONFIG' | 'INVALID_RESPONSE' | 'UNKNOWN';
+
+// Raised for anything the user can fix: missing key, unreachable endpoint, bad reply
+export class AIProviderError extends Error {
+  constructor(message: string, public kind: AIErrorKind = 'UNKNOWN', public cause?: unknown) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+// Best guess from SDK and fetch errors, which only share status codes and wording
+export const classifyAIError = (error: unknown): AIErrorKind => {
+  if (error instanceof AIProviderError) return error.kind;
+  const status = isRecord(error) && typeof error.status === 'number' ? error.status : undefined;
+  const text = (isRecord(error) && typeof error.message === 'string' ? error.message : String(error)).toLowerCase();
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted|\b429\b/.test(text)) return 'QUOTA';
+  if (status === 401 || status === 403 || /api.?key|permission|unauthori[sz]ed|\b40[13]\b/.test(text)) return 'CONFIG';
+  if (error instanceof TypeError || /network|failed to fetch|fetch failed|timed? ?out|offline/.test(text)) return 'NETWORK';
+  return 'UNKNOWN';
+};
+
+const ERROR_MESSAGES: Partial<Record<AIErrorKind, string>> = {
+  NETWORK: "Could not reach the AI service. Check your internet connection and try again.",
+  QUOTA: "The AI service's usage limit was reached. Wait a while or use another API key.",
+  CONFIG: "The AI service refused the request. Check the API key under AI Provider in Settings.",
+};
+
+// Wraps an unknown failure with a message that matches its kind
+export const toAIProviderError = (error: unknown, fallbackMessage: string): AIProviderError => {
+  if (error instanceof AIProviderError) return error;
+  const kind = classifyAIError(error);
+  return new AIProviderError(ERROR_MESSAGES[kind] || fallbackMessage, kind, error);
+};
+
+// Settings are per device and profile and hold API keys, so they live in localStorage
+// and are never written into backups.
+const AI_SETTINGS_KEY = 'focusflow_ai_settings';
+
+export const getBuildApiKey = () => process.env.API_KEY || '';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'GEMINI',
+  geminiApiKey: '',
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIModel: 'llama3.2-vision',
+  openAIApiKey: '',
+};
+
+const PROVIDER_IDS: AIProviderId[] = ['GEMINI', 'OPENAI_COMPATIBLE', 'OFFLINE'];
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value);
+
+export const loadAISettings = (): AISettings => {
+  // Without any Gemini key the app starts offline instead of failing on first use
+  const defaults: AISettings = { ...DEFAULT_AI_SETTINGS, provider: getBuildApiKey() ? 'GEMINI' : 'OFFLINE' };
+  const saved = localStorage.getItem(profileStorageKey(AI_SETTINGS_KEY));
+  if (!saved) return defaults;
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    if (!isRecord(parsed)) return defaults;
+    return {
+      provider: isProviderId(parsed.provider) ? parsed.provider : defaults.provider,
+      geminiApiKey: typeof parsed.geminiApiKey === 'string' ? parsed.geminiApiKey : '',
+      openAIBaseUrl: typeof parsed.openAIBaseUrl === 'string' ? parsed.openAIBaseUrl : defaults.openAIBaseUrl,
+      openAIModel: typeof parsed.openAIModel === 'string' ? parsed.openAIModel : defaults.openAIModel,
+      openAIApiKey: typeof parsed.openAIApiKey === 'string' ? parsed.openAIApiKey : '',
+    };
+  } catch (e) {
+    console.error("Failed to parse AI settings", e);
+    return defaults;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(profileStorageKey(AI_SETTINGS_KEY), JSON.stringify(settings));
+};
+
+// Prompts shared by every model-backed provider
+
+export const INSIGHTS_SYSTEM_INSTRUCTION = "You are an expert NEET PG study coach and productivity analyst.";
+
+// Same persona as the reports, for follow-up questions about the student's own data
+export const buildCoachChatInstruction = (context: string) => `${INSIGHTS_SYSTEM_INSTRUCTION}
+Talk like a senior resident or mentor: motivational but professional, concise and specific.
+Answer using the student's data below. Refer to real subjects, hours and numbers from it, and say so when the data does not cover a question.
+When asked for a plan, give day-by-day blocks with subjects and hours that fit the student's goals and study plan. Use markdown.
+
+${context}`;
+
+// Only the latest turns are sent so long conversations stay within model limits
+export const MAX_CHAT_TURNS = 20;
+
+export const NO_SESSIONS_MESSAGE = "No study sessions recorded yet. Start your revision to get personalized insights!";
+
+export const buildCoachReportPrompt = (sessions: StudySession[], facts: string[] = []) => {
+  // Prepare data summary for the prompt to save tokens and be concise. Sessions
+  // are kept newest first, so sort by time before taking the latest 25.
+  const recent = [...sessions].sort((a, b) => a.startTime - b.startTime).slice(-25);
+  const summary = recent.map(s => ({
+    date: new Date(s.startTime).toLocaleDateString(),
+    durationMinutes: Math.round(s.duration / 60),
+    subject: s.subject,
+    concentration: s.concentration,
+    notes: s.notes || "None"
+  }));
+
+  // Facts cover the full history, so the model does not have to guess from 25 rows
+  const factsBlock = facts.length > 0
+    ? `\n\n    Pre-computed facts from all sessions and MCQ logs (treat these as accurate):\n${facts.map(f => `    - ${f}`).join('\n')}`
+    : '';
+
+  return `
+    Analyze the following recent study sessions for a medical student preparing for the NEET PG exam.
+    Data: ${JSON.stringify(summary)}${factsBlock}
+
+    Provide a concise, high-yield, and actionable analysis as a JSON object with:
+    1. summary: string (2-3 sentences; motivational but professional, like a senior resident or mentor).
+    2. trends: string[] (2-4 trends in concentration relative to specific subjects (Standard 19 subjects) or time of day, building on the pre-computed facts where given).
+    3. weakSubjects: { subject: string, reason: string }[] (up to 3 subjects that need attention).
+    4. actionItems: { text: string, priority: "HIGH" | "MEDIUM" | "LOW", subject?: string }[] (3-5 concrete tasks for the coming week with hours or MCQ counts, e.g. "Do 2 hours of Pharmacology ANS").
+    5. focusTip: string (one tip to improve focus or retention, tailored for high-volume medical syllabus revision).
+  `;
+};
+
+export const MCQ_PROOF_PROMPT = `Analyze this image submitted by a NEET PG aspirant. They claim to have solved MCQs.
+Check if the image is a screenshot of a quiz app (like Marrow, Prepladder, etc.), a photo of a scorecard, or a handwritten log showing questions solved.
+
+Return a JSON object with:
+1. verified: boolean (true if it looks like legitimate study proof)
+2. count: integer (The number of MCQs solved visible in the image. If they just say "100 solved" in handwriting, accept 100. If no number is visible but activity is verified, return 0).
+3. feedback: string (A short encouraging message confirming the count, or explaining why it was rejected).`;
+
+// Models without a JSON mode may wrap the object in prose or code fences
+const extractJson = (text: string): unknown => {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) throw new AIProviderError("The AI reply did not contain a result.", 'INVALID_RESPONSE');
+  try {
+    return JSON.parse(match[0]);
+  } catch (e) {
+    throw new AIProviderError("The AI reply could not be read.", 'INVALID_RESPONSE', e);
+  }
+};
+
+// Upper bound for one proof; larger counts are treated as a misread, not credit
+export const MAX_PROOF_COUNT = 500;
+
+export const parseMCQProofResult = (text: string): MCQProofResult => {
+  const parsed = extractJson(text);
+  if (!isRecord(parsed)) throw new AIProviderError("The AI reply did not match the expected proof format.", 'INVALID_RESPONSE');
+  // Some models quote numbers; anything else that is not a whole number is rejected
+  const count = typeof parsed.count === 'string' && parsed.count.trim() !== '' ? Number(parsed.count) : parsed.count;
+  if (typeof parsed.verified !== 'boolean' || typeof count !== 'number' || !Number.isInteger(count) || typeof parsed.feedback !== 'string') {
+    throw new AIProviderError("The AI reply did not match the expected proof format.", 'INVALID_RESPONSE');
+  }
+  if (count < 0 || count > MAX_PROOF_COUNT) {
+    throw new AIProviderError(`The AI read ${count} MCQs from this image, which is not plausible for one proof.`, 'INVALID_RESPONSE');
+  }
+  return { verified: parsed.verified, count, feedback: parsed.feedback.trim() };
+};
+
+const PRIORITIES: ActionPriority[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Checks a reply against the report shape. Lists drop malformed entries, but a
+// report without a summary, focus tip or any usable action item is rejected.
+export const parseCoachReport = (text: string): CoachReportContent => {
+  const parsed = extractJson(text);
+  const fields = isRecord(parsed) ? parsed : {};
+  const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+  const actionItems = list(fields.actionItems).flatMap(item => {
+    if (!isRecord(item) || !isText(item.text)) return [];
+    const priority = String(item.priority).toUpperCase() as ActionPriority;
+    return [{
+      text: item.text.trim(),
+      priority: PRIORITIES.includes(priority) ? priority : 'MEDIUM',
+      ...(isText(item.subject) ? { subject: item.subject.trim() } : {}),
+    }];
+  });
+
+  const { summary, focusTip } = fields;
+  if (!isText(summary) || !isText(focusTip) || actionItems.length === 0) {
+    throw new AIProviderError("The AI reply did not match the coach report format. Please try again.", 'INVALID_RESPONSE');
+  }
+
+  return {
+    summary: summary.trim(),
+    trends: list(fields.trends).filter(isText).map(t => t.trim()),
+    weakSubjects: list(fields.weakSubjects).flatMap(w =>
+      isRecord(w) && isText(w.subject) ? [{ subject: w.subject.trim(), reason: isText(w.reason) ? w.reason.trim() : '' }] : []
+    ),
+    actionItems,
+    focusTip: focusTip.trim(),
+  };
+};
+
+// Splits a data URL into its MIME type and base64 payload
+export const splitDataUrl = (base64Image: string) => {
+  const match = base64Image.match(/^data:([^;]+);base64,/);
+  return {
+    mimeType: match ? match[1] : 'image/png',
+    data: match ? base64Image.slice(match[0].length) : base64Image,
+  };
+};
@@ -0,0 +1,374 @@
+import { CoachReport, ExamSettings, GoalSettings, MCQLog, MockTest, StudySession } from "../types";
+import { normalizeGoals, validateGoals } from "./goals";
+import { normalizeExamSettings, validateExamSettings } from "./examPlanner";
+import { isRecord } from "../utils/guards";
+
+// Backup files: validation of every record plus a dry-run import plan, so a
+// merge can be previewed before anything in the app changes.
+
+export interface BackupData {
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  mockTests: MockTest[];
+  coachReports: CoachReport[];
+  studyPlan: string[];
+  // Settings objects; null when the file or the app has none saved
+  goals: GoalSettings | null;
+  exams: ExamSettings | null;
+}
+
+export type BackupCollection = keyof BackupData;
+
+// Contents of a file being imported. A collection the file does not carry is
+// null and stays as it is on import, even in REPLACE mode.
+export type IncomingBackupData = { [K in BackupCollection]: BackupData[K] | null };
+
+export interface RecordError {
+  collection: BackupCollection;
+  index: number;
+  id?: string;
+  message: string;
+}
+
+export interface BackupValidation {
+  data: IncomingBackupData;
+  errors: RecordError[];
+}
+
+export type ImportMode = 'MERGE' | 'REPLACE';
+
+// What happens to records whose id exists on both sides but whose content differs
+export type ConflictPolicy = 'KEEP_CURRENT' | 'TAKE_INCOMING';
+
+export interface CollectionPlan {
+  added: number;
+  changed: number;
+  skipped: number; // identical records, or conflicts resolved in favour of current data
+  removed: number; // only in REPLACE mode, for collections the file carries
+}
+
+export interface ImportPlan {
+  counts: Record<BackupCollection, CollectionPlan>;
+  result: BackupData;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Record validators return a list of problems; an empty list means valid
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isOneOf = (value: unknown, options: readonly unknown[]) => options.includes(value);
+
+const optionalOfType = (record: Record<string, unknown>, field: string, type: 'string' | 'number' | 'boolean', problems: string[]) => {
+  if (record[field] !== undefined && typeof record[field] !== type) {
+    problems.push(`"${field}" must be a ${type}`);
+  }
+};
+
+export const validateSessionRecord = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['not an object'];
+  const problems: string[] = [];
+  if (typeof record.id !== 'string' || !record.id) problems.push('missing "id"');
+  if (typeof record.subject !== 'string' || !record.subject.trim()) problems.push('missing "subject"');
+  if (!isFiniteNumber(record.startTime)) problems.push('"startTime" must be a timestamp');
+  if (!isFiniteNumber(record.endTime)) problems.push('"endTime" must be a timestamp');
+  if (isFiniteNumber(record.startTime) && isFiniteNumber(record.endTime) && record.endTime < record.startTime) {
+    problems.push('"endTime" is before "startTime"');
+  }
+  if (!isFiniteNumber(record.duration) || record.duration < 0) problems.push('"duration" must be a non-negative number of seconds');
+  if (!isOneOf(record.concentration, [1, 2, 3, 4, 5])) problems.push('"concentration" must be 1-5');
+  optionalOfType(record, 'notes', 'string', problems);
+  optionalOfType(record, 'intervalGroupId', 'string', problems);
+  optionalOfType(record, 'cycle', 'number', problems);
+  optionalOfType(record, 'syllabusNodeId', 'string', problems);
+  if (record.pauses !== undefined && !(Array.isArray(record.pauses) && record.pauses.every((p: unknown) =>
+    isRecord(p) && isFiniteNumber(p.start) && isFiniteNumber(p.end) && p.end >= p.start
+    && (p.reason === undefined || isOneOf(p.reason, ['PHONE', 'BREAK', 'INTERRUPTION', 'IDLE']))
+  ))) {
+    problems.push('"pauses" must be a list of start/end timestamps');
+  }
+  if (record.tabSwitches !== undefined && !isCount(record.tabSwitches)) {
+    problems.push('"tabSwitches" must be a non-negative integer');
+  }
+  return problems;
+};
+
+export const validateMCQLogRecord = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['not an object'];
+  const problems: string[] = [];
+  if (typeof record.id !== 'string' || !record.id) problems.push('missing "id"');
+  if (!isFiniteNumber(record.timestamp)) problems.push('"timestamp" must be a timestamp');
+  if (!isCount(record.count)) problems.push('"count" must be a non-negative integer');
+  if (typeof record.verified !== 'boolean') problems.push('"verified" must be true or false');
+  if (typeof record.feedback !== 'string') problems.push('"feedback" must be text');
+  optionalOfType(record, 'subject', 'string', problems);
+  optionalOfType(record, 'source', 'string', problems);
+  ['correct', 'incorrect', 'skipped'].forEach(field => {
+    if (record[field] !== undefined && !isCount(record[field])) {
+      problems.push(`"${field}" must be a non-negative integer`);
+    }
+  });
+  if (isCount(record.correct) && isCount(record.incorrect) && isCount(record.count) && record.correct + record.incorrect > record.count) {
+    problems.push('"correct" + "incorrect" is more than "count"');
+  }
+  optionalOfType(record, 'timeTakenMinutes', 'number', problems);
+  optionalOfType(record, 'proofHash', 'string', problems);
+  return problems;
+};
+
+export const validateMockTestRecord = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['not an object'];
+  const problems: string[] = [];
+  if (typeof record.id !== 'string' || !record.id) problems.push('missing "id"');
+  if (typeof record.name !== 'string' || !record.name.trim()) problems.push('missing "name"');
+  if (!isFiniteNumber(record.date)) problems.push('"date" must be a timestamp');
+  if (!isFiniteNumber(record.maxScore) || record.maxScore <= 0) problems.push('"maxScore" must be a positive number');
+  if (!isFiniteNumber(record.totalScore)) problems.push('"totalScore" must be a number');
+  else if (isFiniteNumber(record.maxScore) && record.totalScore > record.maxScore) problems.push('"totalScore" is more than "maxScore"');
+  if (!Array.isArray(record.subjectMarks)) {
+    problems.push('"subjectMarks" must be a list');
+  } else if (record.subjectMarks.some((m: unknown) =>
+    !isRecord(m) || typeof m.subject !== 'string' || !isFiniteNumber(m.marks) || !isFiniteNumber(m.maxMarks) || m.maxMarks <= 0
+  )) {
+    problems.push('"subjectMarks" entries need a subject, marks and a positive maxMarks');
+  }
+  if (record.rank !== undefined && !(isCount(record.rank) && record.rank >= 1)) problems.push('"rank" must be a whole number of 1 or more');
+  if (record.percentile !== undefined && (!isFiniteNumber(record.percentile) || record.percentile < 0 || record.percentile > 100)) {
+    problems.push('"percentile" must be between 0 and 100');
+  }
+  optionalOfType(record, 'notes', 'string', problems);
+  return problems;
+};
+
+const PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'];
+
+export const validateCoachReportRecord = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['not an object'];
+  const problems: string[] = [];
+  if (typeof record.id !== 'string' || !record.id) problems.push('missing "id"');
+  if (!isFiniteNumber(record.createdAt)) problems.push('"createdAt" must be a timestamp');
+  ['provider', 'summary', 'focusTip'].forEach(key => {
+    if (typeof record[key] !== 'string') problems.push(`"${key}" must be text`);
+  });
+  if (!Array.isArray(record.trends) || record.trends.some((t: unknown) => typeof t !== 'string')) {
+    problems.push('"trends" must be a list of text');
+  }
+  if (!Array.isArray(record.weakSubjects) || record.weakSubjects.some((w: unknown) =>
+    !isRecord(w) || typeof w.subject !== 'string' || typeof w.reason !== 'string'
+  )) {
+    problems.push('"weakSubjects" entries need a subject and a reason');
+  }
+  if (!Array.isArray(record.actionItems) || record.actionItems.some((i: unknown) =>
+    !isRecord(i) || typeof i.id !== 'string' || typeof i.text !== 'string' || !isOneOf(i.priority, PRIORITIES) || typeof i.done !== 'boolean'
+  )) {
+    problems.push('"actionItems" entries need an id, text, priority and done flag');
+  }
+  const metrics = record.metrics;
+  if (!isRecord(metrics)
+    || !isFiniteNumber(metrics.studyHours) || !isFiniteNumber(metrics.sessionsCount) || !isFiniteNumber(metrics.mcqsSolved)
+    || (metrics.avgConcentration !== null && !isFiniteNumber(metrics.avgConcentration))
+    || (metrics.mcqAccuracy !== null && !isFiniteNumber(metrics.mcqAccuracy))) {
+    problems.push('"metrics" is incomplete');
+  }
+  return problems;
+};
+
+const collectValid = <T extends { id: string }>(
+  collection: BackupCollection,
+  raw: unknown,
+  validate: (record: unknown) => string[],
+  errors: RecordError[]
+): T[] | null => {
+  if (raw === undefined) return null;
+  if (!Array.isArray(raw)) {
+    errors.push({ collection, index: -1, message: `"${collection}" must be a list` });
+    return null;
+  }
+  const seen = new Set<string>();
+  const valid: T[] = [];
+  raw.forEach((record: unknown, index) => {
+    const problems = validate(record);
+    const id = isRecord(record) && typeof record.id === 'string' ? record.id : undefined;
+    if (problems.length === 0 && id !== undefined && seen.has(id)) problems.push('duplicate "id" in file');
+    if (problems.length > 0) {
+      errors.push({ collection, index, id, message: problems.join(', ') });
+      return;
+    }
+    if (id !== undefined) seen.add(id);
+    valid.push(record as T);
+  });
+  return valid;
+};
+
+export const validateBackup = (raw: unknown): BackupValidation => {
+  // Very old exports were a bare array of sessions
+  const root: unknown = Array.isArray(raw) ? { sessions: raw } : raw;
+  if (!isRecord(root) || !('sessions' in root || 'mcqLogs' in root || 'mockTests' in root)) {
+    throw new BackupFormatError("This file is not a NEET PG Tracker backup.");
+  }
+
+  const errors: RecordError[] = [];
+  const sessions = collectValid<StudySession>('sessions', root.sessions, validateSessionRecord, errors);
+  const mcqLogs = collectValid<MCQLog>('mcqLogs', root.mcqLogs, validateMCQLogRecord, errors);
+  const mockTests = collectValid<MockTest>('mockTests', root.mockTests, validateMockTestRecord, errors);
+  const coachReports = collectValid<CoachReport>('coachReports', root.coachReports, validateCoachReportRecord, errors);
+
+  const readSetting = <T>(collection: 'goals' | 'exams', validate: (raw: unknown) => string[], normalize: (raw: unknown) => T): T | null => {
+    const value = root[collection];
+    if (value === undefined) return null;
+    const problems = validate(value);
+    // normalize fills in anything a valid setting leaves out
+    if (problems.length === 0) return normalize(value);
+    errors.push({ collection, index: -1, message: problems.join(', ') });
+    return null;
+  };
+  const goals = readSetting('goals', validateGoals, normalizeGoals);
+  const exams = readSetting('exams', validateExamSettings, normalizeExamSettings);
+
+  // Older backups may not carry a plan at all
+  let studyPlan: string[] | null = null;
+  const rawPlan = root.studyPlan;
+  if (Array.isArray(rawPlan)) {
+    const items: string[] = [];
+    rawPlan.forEach((item: unknown, index: number) => {
+      if (typeof item === 'string' && item.trim()) items.push(item.trim());
+      else errors.push({ collection: 'studyPlan', index, message: 'plan items must be non-empty text' });
+    });
+    studyPlan = items;
+  } else if (rawPlan !== undefined) {
+    errors.push({ collection: 'studyPlan', index: -1, message: '"studyPlan" must be a list' });
+  }
+
+  return { data: { sessions, mcqLogs, mockTests, coachReports, studyPlan, goals, exams }, errors };
+};
+
+// Key-order independent comparison for plain JSON records
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value).filter(k => value[k] !== undefined).sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const planRecords = <T extends { id: string }>(
+  current: T[],
+  incoming: T[] | null,
+  mode: ImportMode,
+  conflicts: ConflictPolicy
+): { plan: CollectionPlan; result: T[] } => {
+  const plan: CollectionPlan = { added: 0, changed: 0, skipped: 0, removed: 0 };
+  if (!incoming) return { plan, result: [...current] };
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const merged = new Map(mode === 'REPLACE' ? [] : current.map(r => [r.id, r]));
+
+  incoming.forEach(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      plan.added++;
+      merged.set(record.id, record);
+    } else if (stableStringify(existing) === stableStringify(record)) {
+      plan.skipped++;
+      merged.set(record.id, existing);
+    } else if (mode === 'REPLACE' || conflicts === 'TAKE_INCOMING') {
+      plan.changed++;
+      merged.set(record.id, record);
+    } else {
+      plan.skipped++;
+    }
+  });
+
+  if (mode === 'REPLACE') {
+    plan.removed = current.filter(r => !incomingIds.has(r.id)).length;
+  }
+
+  return { plan, result: Array.from(merged.values()) };
+};
+
+// Settings objects are a single record each, resolved like a conflicting record
+const planSetting = <T>(
+  current: T | null,
+  incoming: T | null,
+  mode: ImportMode,
+  conflicts: ConflictPolicy
+): { plan: CollectionPlan; result: T | null } => {
+  const plan: CollectionPlan = { added: 0, changed: 0, skipped: 0, removed: 0 };
+  if (!incoming) return { plan, result: current };
+  if (!current) {
+    plan.added = 1;
+    return { plan, result: incoming };
+  }
+  if (stableStringify(current) !== stableStringify(incoming) && (mode === 'REPLACE' || conflicts === 'TAKE_INCOMING')) {
+    plan.changed = 1;
+    return { plan, result: incoming };
+  }
+  plan.skipped = 1;
+  return { plan, result: current };
+};
+
+// Computes the outcome of an import without applying it
+export const planImport = (
+  current: BackupData,
+  validation: BackupValidation,
+  mode: ImportMode,
+  conflicts: ConflictPolicy = 'KEEP_CURRENT'
+): ImportPlan => {
+  const incoming = validation.data;
+  const sessions = planRecords(current.sessions, incoming.sessions, mode, conflicts);
+  const mcqLogs = planRecords(current.mcqLogs, incoming.mcqLogs, mode, conflicts);
+  const mockTests = planRecords(current.mockTests, incoming.mockTests, mode, conflicts);
+  const coachReports = planRecords(current.coachReports, incoming.coachReports, mode, conflicts);
+
+  // Plan items have no ids, so they are merged by their text
+  const planCounts: CollectionPlan = { added: 0, changed: 0, skipped: 0, removed: 0 };
+  let studyPlan = current.studyPlan;
+  if (incoming.studyPlan) {
+    const currentKeys = new Set(current.studyPlan.map(p => p.toLowerCase()));
+    const incomingKeys = new Set(incoming.studyPlan.map(p => p.toLowerCase()));
+    const newItems = incoming.studyPlan.filter((p, i, all) =>
+      !currentKeys.has(p.toLowerCase()) && all.findIndex(q => q.toLowerCase() === p.toLowerCase()) === i
+    );
+    planCounts.added = newItems.length;
+    planCounts.skipped = incoming.studyPlan.length - newItems.length;
+    if (mode === 'REPLACE') {
+      planCounts.removed = current.studyPlan.filter(p => !incomingKeys.has(p.toLowerCase())).length;
+      studyPlan = incoming.studyPlan;
+    } else {
+      studyPlan = [...current.studyPlan, ...newItems];
+    }
+  }
+
+  const goals = planSetting(current.goals, incoming.goals, mode, conflicts);
+  const exams = planSetting(current.exams, incoming.exams, mode, conflicts);
+
+  return {
+    counts: {
+      sessions: sessions.plan,
+      mcqLogs: mcqLogs.plan,
+      mockTests: mockTests.plan,
+      coachReports: coachReports.plan,
+      studyPlan: planCounts,
+      goals: goals.plan,
+      exams: exams.plan,
+    },
+    result: {
+      sessions: sessions.result.sort((a, b) => b.startTime - a.startTime),
+      mcqLogs: mcqLogs.result.sort((a, b) => b.timestamp - a.timestamp),
+      mockTests: mockTests.result.sort((a, b) => b.date - a.date),
+      coachReports: coachReports.result.sort((a, b) => b.createdAt - a.createdAt),
+      studyPlan,
+      goals: goals.result,
+      exams: exams.result,
+    },
+  };
+};
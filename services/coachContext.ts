@@ -0,0 +1,92 @@
+import { ExamSettings, GoalSettings, MCQLog, StudySession } from "../types";
+import { StudyAnalytics, formatFindingsForPrompt } from "./studyAnalytics";
+import { getAccuracy, getSubjectAccuracy } from "./mcqStats";
+import { getDailyMCQCounts, getDailyStudyHours } from "./goals";
+import { getUpcomingExams } from "./examPlanner";
+import { getLocalDateString } from "../utils/date";
+
+// Plain-text snapshot of the student's data sent with every chat message.
+// Everything is summarised so the context stays small as history grows.
+
+const RECENT_SESSIONS = 15;
+const RECENT_MCQ_LOGS = 10;
+const MAX_PLAN_ITEMS = 40;
+
+export interface CoachContextData {
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  studyPlan: string[];
+  goals: GoalSettings;
+  exams: ExamSettings;
+  analytics: StudyAnalytics;
+}
+
+const section = (title: string, lines: string[]) =>
+  lines.length > 0 ? [`## ${title}`, ...lines.map(l => `- ${l}`), ''] : [];
+
+export const buildCoachContext = (data: CoachContextData, now: number = Date.now()) => {
+  const { sessions, mcqLogs, studyPlan, goals, exams, analytics } = data;
+  const today = getLocalDateString(now);
+  const weekAgo = now - 7 * 24 * 3600 * 1000;
+  const lastWeek = sessions.filter(s => s.startTime >= weekAgo);
+  const totalHours = sessions.reduce((acc, s) => acc + s.duration, 0) / 3600;
+  const accuracy = getAccuracy(mcqLogs);
+
+  const overview = [
+    `Today is ${today}`,
+    `${sessions.length} sessions, ${totalHours.toFixed(1)} hours in total; ${(lastWeek.reduce((acc, s) => acc + s.duration, 0) / 3600).toFixed(1)} hours in the last 7 days`,
+    `${mcqLogs.reduce((acc, l) => acc + l.count, 0)} MCQs logged` +
+      (accuracy.accuracy !== null ? `, ${accuracy.accuracy}% accuracy over ${accuracy.attempted} scored MCQs` : ''),
+    ...getUpcomingExams(exams, now).map(e => `${e.label} in ${e.daysLeft} days (${getLocalDateString(e.date)})`),
+    analytics.distractions.trackedSessions > 0
+      ? `Timer sessions: ${analytics.distractions.switchesPerHour} tab switches and ${analytics.distractions.pausesPerHour} pauses per focused hour, ${analytics.distractions.pausedMinutes} min paused in total`
+      : '',
+  ].filter(Boolean);
+
+  const subjects = analytics.subjects.map(s =>
+    `${s.subject}: ${s.totalHours}h over ${s.sessions} sessions (avg ${s.avgSessionMinutes} min), focus ${s.avgConcentration}/5` +
+    (s.focusChange !== null ? ` (recent change ${s.focusChange > 0 ? '+' : ''}${s.focusChange})` : '') +
+    `, last studied ${s.daysSinceLast} days ago` +
+    (s.mcqAccuracy !== null ? `, MCQ accuracy ${s.mcqAccuracy}%` : '')
+  );
+
+  const recentSessions = [...sessions]
+    .sort((a, b) => b.startTime - a.startTime)
+    .slice(0, RECENT_SESSIONS)
+    .map(s => `${new Date(s.startTime).toLocaleString()}: ${s.subject}, ${Math.round(s.duration / 60)} min, focus ${s.concentration}/5` +
+      (s.pauses?.length ? `, ${s.pauses.length} pauses` : '') +
+      (s.tabSwitches ? `, ${s.tabSwitches} tab switches` : '') +
+      (s.notes ? ` — ${s.notes}` : ''));
+
+  const mcqBySubject = getSubjectAccuracy(mcqLogs).map(s => `${s.subject}: ${s.accuracy}% (${s.correct}/${s.attempted})`);
+  const recentLogs = [...mcqLogs]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, RECENT_MCQ_LOGS)
+    .map(l => `${getLocalDateString(l.timestamp)}: ${l.count} MCQs` +
+      (l.subject ? ` of ${l.subject}` : '') +
+      (l.source ? ` from ${l.source}` : '') +
+      (typeof l.correct === 'number' ? `, ${l.correct} correct` : ''));
+
+  const goalLines = [
+    goals.dailyStudyHours > 0
+      ? `Daily study goal ${goals.dailyStudyHours}h; today ${(getDailyStudyHours(sessions).get(today) || 0).toFixed(1)}h`
+      : '',
+    goals.dailyMCQs > 0 ? `Daily MCQ goal ${goals.dailyMCQs}; today ${getDailyMCQCounts(mcqLogs).get(today) || 0}` : '',
+    ...Object.entries(goals.weeklySubjectHours).filter(([, h]) => h > 0).map(([subject, h]) => `Weekly goal for ${subject}: ${h}h`),
+    goals.restDays.includes(today) ? 'Today is marked as a rest day' : '',
+  ].filter(Boolean);
+
+  const plan = studyPlan.slice(0, MAX_PLAN_ITEMS);
+  if (studyPlan.length > MAX_PLAN_ITEMS) plan.push(`…and ${studyPlan.length - MAX_PLAN_ITEMS} more items`);
+
+  return [
+    ...section('Overview', overview),
+    ...section('Findings computed on the device', formatFindingsForPrompt(analytics)),
+    ...section('Subjects', subjects),
+    ...section('Recent sessions', recentSessions),
+    ...section('MCQ accuracy by subject', mcqBySubject),
+    ...section('Recent MCQ blocks', recentLogs),
+    ...section('Goals', goalLines),
+    ...section('Study plan', plan),
+  ].join('\n').trim();
+};
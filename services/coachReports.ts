@@ -0,0 +1,83 @@
+import { CoachReport, CoachReportMetrics, MCQLog, StudySession } from "../types";
+import { CoachReportContent } from "./aiProvider";
+import { getAccuracy } from "./mcqStats";
+
+// Coach reports are kept as a dated history. Each report stores the metrics
+// of the week before it, so the next report can show what changed.
+
+export const REPORT_WINDOW_DAYS = 7;
+
+export interface MetricChange {
+  key: keyof CoachReportMetrics;
+  label: string;
+  current: number | null;
+  previous: number | null;
+  change: number | null; // null when either side has no value
+  unit: string;
+}
+
+const METRIC_LABELS: { key: keyof CoachReportMetrics; label: string; unit: string }[] = [
+  { key: 'studyHours', label: 'Study hours', unit: 'h' },
+  { key: 'sessionsCount', label: 'Sessions', unit: '' },
+  { key: 'avgConcentration', label: 'Avg focus', unit: '/5' },
+  { key: 'mcqsSolved', label: 'MCQs solved', unit: '' },
+  { key: 'mcqAccuracy', label: 'MCQ accuracy', unit: '%' },
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const getReportMetrics = (
+  sessions: StudySession[],
+  mcqLogs: MCQLog[],
+  now: number = Date.now()
+): CoachReportMetrics => {
+  const since = now - REPORT_WINDOW_DAYS * 24 * 3600 * 1000;
+  const recentSessions = sessions.filter(s => s.startTime >= since && s.startTime <= now);
+  const recentLogs = mcqLogs.filter(l => l.timestamp >= since && l.timestamp <= now);
+  return {
+    studyHours: round1(recentSessions.reduce((acc, s) => acc + s.duration, 0) / 3600),
+    sessionsCount: recentSessions.length,
+    avgConcentration: recentSessions.length
+      ? round1(recentSessions.reduce((acc, s) => acc + s.concentration, 0) / recentSessions.length)
+      : null,
+    mcqsSolved: recentLogs.reduce((acc, l) => acc + l.count, 0),
+    mcqAccuracy: getAccuracy(recentLogs).accuracy,
+  };
+};
+
+export const createCoachReport = (
+  content: CoachReportContent,
+  metrics: CoachReportMetrics,
+  provider: string,
+  now: number = Date.now()
+): CoachReport => ({
+  id: crypto.randomUUID(),
+  createdAt: now,
+  provider,
+  summary: content.summary,
+  trends: content.trends,
+  weakSubjects: content.weakSubjects,
+  actionItems: content.actionItems.map(item => ({ ...item, id: crypto.randomUUID(), done: false })),
+  focusTip: content.focusTip,
+  metrics,
+});
+
+export const getMetricChanges = (current: CoachReportMetrics, previous: CoachReportMetrics): MetricChange[] =>
+  METRIC_LABELS.map(({ key, label, unit }) => ({
+    key,
+    label,
+    unit,
+    current: current[key],
+    previous: previous[key],
+    change: current[key] !== null && previous[key] !== null ? round1(current[key]! - previous[key]!) : null,
+  }));
+
+// Extra facts for the next report, so the coach can follow up on its own advice
+export const describePreviousReport = (report: CoachReport): string[] => {
+  const done = report.actionItems.filter(i => i.done);
+  const open = report.actionItems.filter(i => !i.done);
+  return [
+    `The previous coach report (${new Date(report.createdAt).toLocaleDateString()}) had ${report.actionItems.length} action items; ${done.length} are done`,
+    ...open.map(i => `Still open from the previous report: ${i.text}`),
+  ];
+};
@@ -0,0 +1,315 @@
+import { MCQLog, StudySession } from "../types";
+import { toCSV } from "../utils/csv";
+import { BackupValidation, RecordError, validateMCQLogRecord, validateSessionRecord } from "./backup";
+
+// CSV columns for spreadsheet export/import. Headers are part of the file
+// format: rename them only together with their aliases below.
+
+export type CsvRecordKind = 'sessions' | 'mcqLogs';
+
+// How to read day/month dates such as 03/04/2026: DD/MM (India, UK) or MM/DD (US)
+export type CsvDateOrder = 'DMY' | 'MDY';
+
+export interface CsvField {
+  key: string;
+  header: string;
+  required: boolean;
+  aliases: string[]; // other header spellings matched when auto-mapping
+}
+
+export const CSV_FIELDS: Record<CsvRecordKind, CsvField[]> = {
+  sessions: [
+    { key: 'id', header: 'id', required: false, aliases: ['session_id'] },
+    { key: 'subject', header: 'subject', required: true, aliases: ['topic', 'subject_name'] },
+    { key: 'startTime', header: 'start_time', required: true, aliases: ['start', 'started_at', 'date', 'start_date'] },
+    { key: 'endTime', header: 'end_time', required: false, aliases: ['end', 'ended_at', 'end_date'] },
+    { key: 'duration', header: 'duration_seconds', required: false, aliases: ['duration', 'seconds', 'time_spent'] },
+    { key: 'concentration', header: 'concentration', required: true, aliases: ['focus', 'rating', 'focus_rating'] },
+    { key: 'notes', header: 'notes', required: false, aliases: ['note', 'comments', 'remarks'] },
+  ],
+  mcqLogs: [
+    { key: 'id', header: 'id', required: false, aliases: ['log_id'] },
+    { key: 'timestamp', header: 'timestamp', required: true, aliases: ['date', 'time', 'logged_at'] },
+    { key: 'count', header: 'count', required: true, aliases: ['mcqs', 'questions', 'attempted', 'solved'] },
+    { key: 'verified', header: 'verified', required: false, aliases: ['ai_verified'] },
+    { key: 'feedback', header: 'feedback', required: false, aliases: ['notes', 'comment', 'remarks'] },
+    { key: 'subject', header: 'subject', required: false, aliases: ['topic'] },
+    { key: 'source', header: 'source', required: false, aliases: ['qbank', 'module'] },
+    { key: 'correct', header: 'correct', required: false, aliases: ['right'] },
+    { key: 'incorrect', header: 'incorrect', required: false, aliases: ['wrong'] },
+    { key: 'skipped', header: 'skipped', required: false, aliases: ['unattempted', 'left'] },
+    { key: 'timeTakenMinutes', header: 'time_taken_minutes', required: false, aliases: ['time_taken', 'minutes'] },
+  ],
+};
+
+const toISO = (timestamp: number) => new Date(timestamp).toISOString();
+
+export const sessionsToCSV = (sessions: StudySession[]) => toCSV(
+  CSV_FIELDS.sessions.map(f => f.header),
+  sessions.map(s => [s.id, s.subject, toISO(s.startTime), toISO(s.endTime), s.duration, s.concentration, s.notes ?? ''])
+);
+
+export const mcqLogsToCSV = (logs: MCQLog[]) => toCSV(
+  CSV_FIELDS.mcqLogs.map(f => f.header),
+  logs.map(l => [
+    l.id, toISO(l.timestamp), l.count, l.verified, l.feedback,
+    l.subject ?? '', l.source ?? '', l.correct ?? '', l.incorrect ?? '', l.skipped ?? '', l.timeTakenMinutes ?? ''
+  ])
+);
+
+// Import
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Picks the record type whose headers match the file best
+export const detectCsvKind = (headers: string[]): CsvRecordKind => {
+  const normalized = new Set(headers.map(normalizeHeader));
+  const score = (kind: CsvRecordKind) => CSV_FIELDS[kind]
+    .filter(f => [f.header, ...f.aliases].some(h => normalized.has(h))).length;
+  return score('mcqLogs') > score('sessions') ? 'mcqLogs' : 'sessions';
+};
+
+// Maps each field to a column index, or -1 when no header matches
+export const autoMapColumns = (kind: CsvRecordKind, headers: string[]): Record<string, number> => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(CSV_FIELDS[kind].map(field => {
+    const candidates = [field.header, ...field.aliases];
+    const index = candidates.map(c => normalized.indexOf(c)).find(i => i >= 0) ?? -1;
+    return [field.key, index];
+  }));
+};
+
+// Coercion helpers return undefined for blank cells and throw on bad input
+
+// 2026-04-03, optionally with a time and a Z or +05:30 offset (our own export)
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+// 03/04/2026, 3.4.26 or 03-04-2026, optionally with "14:30" or "2:30 PM"
+const DAY_MONTH_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:[ ,T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i;
+
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  ms: number;
+}
+
+// Rejects 31/04 or 25:00 instead of letting them roll over into the next month or day
+const isValidDate = ({ year, month, day, hour, minute, second }: DateParts) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= new Date(year, month, 0).getDate()
+  && hour <= 23 && minute <= 59 && second <= 59;
+
+const readDayMonth = (match: RegExpMatchArray, order: CsvDateOrder): DateParts => {
+  const [first, second] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+  const year = parseInt(match[3], 10);
+  let hour = match[4] ? parseInt(match[4], 10) : 0;
+  const meridiem = match[7]?.toLowerCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) hour = 99; // invalid, caught by isValidDate
+    else hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return {
+    year: match[3].length === 2 ? 2000 + year : year,
+    month: order === 'DMY' ? second : first,
+    day: order === 'DMY' ? first : second,
+    hour,
+    minute: match[5] ? parseInt(match[5], 10) : 0,
+    second: match[6] ? parseInt(match[6], 10) : 0,
+    ms: 0,
+  };
+};
+
+const parseTimestamp = (value: string, order: CsvDateOrder): number | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  // Bare numbers are epoch milliseconds (or seconds, for 10-digit values)
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const n = parseFloat(text);
+    return n < 1e11 ? n * 1000 : n;
+  }
+
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    const [year, month, day, hour, minute, second] = iso.slice(1, 7).map(part => part ? parseInt(part, 10) : 0);
+    const parts: DateParts = { year, month, day, hour, minute, second, ms: iso[7] ? parseInt(iso[7].padEnd(3, '0'), 10) : 0 };
+    if (!isValidDate(parts)) throw new Error(`"${text}" is not a valid date`);
+    const zone = iso[8];
+    if (!zone) return new Date(year, month - 1, day, hour, minute, second, parts.ms).getTime();
+    const offset = zone.toUpperCase() === 'Z' ? 0
+      : (zone[0] === '-' ? -1 : 1) * (parseInt(zone.slice(1, 3), 10) * 60 + parseInt(zone.slice(-2), 10));
+    return Date.UTC(year, month - 1, day, hour, minute, second, parts.ms) - offset * 60000;
+  }
+
+  const dayMonth = text.match(DAY_MONTH_DATE);
+  if (dayMonth) {
+    const parts = readDayMonth(dayMonth, order);
+    if (!isValidDate(parts)) {
+      throw new Error(`"${text}" is not a valid ${order === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'} date`);
+    }
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second).getTime();
+  }
+
+  throw new Error(`"${text}" is not a date/time (use YYYY-MM-DD, ${order === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'} or a timestamp)`);
+};
+
+// Month-first only when some date can't be day-first (e.g. 04/25/2026) and none
+// can't be month-first; ambiguous files default to day-first
+export const detectCsvDateOrder = (kind: CsvRecordKind, table: string[][], mapping: Record<string, number>): CsvDateOrder => {
+  const columns = (kind === 'sessions' ? ['startTime', 'endTime'] : ['timestamp'])
+    .map(key => mapping[key])
+    .filter(column => column !== undefined && column >= 0);
+  const fits = (match: RegExpMatchArray, order: CsvDateOrder) => isValidDate(readDayMonth(match, order));
+  let onlyMonthFirst = false;
+  let onlyDayFirst = false;
+  table.slice(1).forEach(row => columns.forEach(column => {
+    const match = (row[column] ?? '').trim().match(DAY_MONTH_DATE);
+    if (!match) return;
+    const dayFirst = fits(match, 'DMY');
+    const monthFirst = fits(match, 'MDY');
+    if (monthFirst && !dayFirst) onlyMonthFirst = true;
+    if (dayFirst && !monthFirst) onlyDayFirst = true;
+  }));
+  return onlyMonthFirst && !onlyDayFirst ? 'MDY' : 'DMY';
+};
+
+// Accepts seconds ("5400"), clock format ("1:30:00", "90:00") or units ("1h 30m", "90m", "1.5h")
+const parseDuration = (value: string): number | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(parseFloat(text));
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    const parts = text.split(':').map(Number);
+    return parts.length === 3 ? parts[0] * 3600 + parts[1] * 60 + parts[2] : parts[0] * 60 + parts[1];
+  }
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+(?:\.\d+)?)\s*m(?:in(?:utes?)?|ins)?)?\s*(?:(\d+)\s*s(?:ec(?:onds?)?)?)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return Math.round(parseFloat(units[1] || '0') * 3600 + parseFloat(units[2] || '0') * 60 + parseFloat(units[3] || '0'));
+  }
+  throw new Error(`"${value}" is not a duration`);
+};
+
+// Accepts "4", "4.0", "4/5" or "4 stars"
+const parseConcentration = (value: string): number | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  const match = text.match(/^(\d+(?:\.\d+)?)/);
+  const level = match ? Math.round(parseFloat(match[1])) : NaN;
+  if (!(level >= 1 && level <= 5)) throw new Error(`concentration "${value}" must be 1-5`);
+  return level;
+};
+
+const parseCount = (value: string): number | undefined => {
+  const text = value.trim().replace(/,/g, '');
+  if (!text) return undefined;
+  const n = Number(text);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`"${value}" is not a whole number`);
+  return n;
+};
+
+const parseBoolean = (value: string): boolean | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  throw new Error(`"${value}" is not yes/no`);
+};
+
+const convertSessionRow = (get: (key: string) => string, order: CsvDateOrder): StudySession => {
+  const startTime = parseTimestamp(get('startTime'), order);
+  if (startTime === undefined) throw new Error('missing start time');
+  let endTime = parseTimestamp(get('endTime'), order);
+  let duration = parseDuration(get('duration'));
+
+  // Fill whichever of end time / duration is missing from the other
+  if (endTime === undefined && duration === undefined) throw new Error('needs an end time or a duration');
+  if (endTime === undefined) endTime = startTime + duration! * 1000;
+  if (duration === undefined) duration = Math.max(0, Math.round((endTime - startTime) / 1000));
+
+  const concentration = parseConcentration(get('concentration'));
+  if (concentration === undefined) throw new Error('missing concentration');
+
+  return {
+    id: get('id').trim() || crypto.randomUUID(),
+    subject: get('subject').trim(),
+    startTime,
+    endTime,
+    duration,
+    concentration: concentration as StudySession['concentration'],
+    notes: get('notes').trim() || undefined,
+  };
+};
+
+const convertMCQRow = (get: (key: string) => string, order: CsvDateOrder): MCQLog => {
+  const timestamp = parseTimestamp(get('timestamp'), order);
+  if (timestamp === undefined) throw new Error('missing date');
+  const count = parseCount(get('count'));
+  if (count === undefined) throw new Error('missing count');
+
+  const timeTaken = get('timeTakenMinutes').trim();
+  const minutes = timeTaken ? Number(timeTaken) : undefined;
+  if (minutes !== undefined && !(minutes >= 0)) throw new Error(`time taken "${timeTaken}" is not a number of minutes`);
+
+  return {
+    id: get('id').trim() || crypto.randomUUID(),
+    timestamp,
+    count,
+    verified: parseBoolean(get('verified')) ?? false,
+    feedback: get('feedback').trim() || 'Imported from CSV',
+    subject: get('subject').trim() || undefined,
+    source: get('source').trim() || undefined,
+    correct: parseCount(get('correct')),
+    incorrect: parseCount(get('incorrect')),
+    skipped: parseCount(get('skipped')),
+    timeTakenMinutes: minutes,
+  };
+};
+
+// Converts parsed CSV rows (header first) into a backup validation result, so
+// CSV imports reuse the same preview and merge path as JSON backups.
+export const convertCsvRows = (
+  kind: CsvRecordKind,
+  table: string[][],
+  mapping: Record<string, number>,
+  dateOrder: CsvDateOrder
+): BackupValidation => {
+  const errors: RecordError[] = [];
+  const sessions: StudySession[] = [];
+  const mcqLogs: MCQLog[] = [];
+  const seen = new Set<string>();
+
+  table.slice(1).forEach((row, rowIndex) => {
+    const get = (key: string) => {
+      const column = mapping[key];
+      return column !== undefined && column >= 0 ? row[column] ?? '' : '';
+    };
+    // Shown as "#index + 1", which matches the spreadsheet row (row 1 holds the headers)
+    const index = rowIndex + 1;
+
+    try {
+      const record = kind === 'sessions' ? convertSessionRow(get, dateOrder) : convertMCQRow(get, dateOrder);
+      const problems = kind === 'sessions' ? validateSessionRecord(record) : validateMCQLogRecord(record);
+      if (seen.has(record.id)) problems.push('duplicate "id" in file');
+      if (problems.length > 0) throw new Error(problems.join(', '));
+      seen.add(record.id);
+      if (kind === 'sessions') sessions.push(record as StudySession);
+      else mcqLogs.push(record as MCQLog);
+    } catch (e) {
+      errors.push({ collection: kind, index, message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  return {
+    data: {
+      sessions: kind === 'sessions' ? sessions : null,
+      mcqLogs: kind === 'mcqLogs' ? mcqLogs : null,
+      mockTests: null,
+      coachReports: null,
+      studyPlan: null,
+      goals: null,
+      exams: null,
+    },
+    errors,
+  };
+};
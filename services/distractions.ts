@@ -0,0 +1,104 @@
+import { ConcentrationLevel, PauseReason, SessionPause, StudySession } from "../types";
+
+// Pauses and tab switches recorded by the Timer. Sessions logged by hand or
+// imported carry neither, so every rate here only counts Timer sessions.
+
+export const PAUSE_REASON_LABELS: Record<PauseReason, string> = {
+  PHONE: 'Phone',
+  BREAK: 'Break',
+  INTERRUPTION: 'Interruption',
+  IDLE: 'Idle (trimmed)',
+};
+
+// Reasons the user can pick; IDLE is only set by the idle check
+export const SELECTABLE_PAUSE_REASONS: PauseReason[] = ['PHONE', 'BREAK', 'INTERRUPTION'];
+
+export const getPausedSeconds = (pauses: SessionPause[] = []) =>
+  Math.round(pauses.reduce((acc, p) => acc + Math.max(0, p.end - p.start), 0) / 1000);
+
+// Wall-clock length; `duration` is the net time focused
+export const getGrossSeconds = (session: Pick<StudySession, 'startTime' | 'endTime'>) =>
+  Math.max(0, Math.round((session.endTime - session.startTime) / 1000));
+
+// Keeps the parts of each pause that fall inside a (possibly edited) time range
+export const clipPauses = (pauses: SessionPause[] = [], startTime: number, endTime: number): SessionPause[] =>
+  pauses
+    .map(p => ({ ...p, start: Math.max(p.start, startTime), end: Math.min(p.end, endTime) }))
+    .filter(p => p.end > p.start);
+
+export const isDistractionTracked = (session: StudySession) => session.tabSwitches !== undefined;
+
+export interface PauseReasonStat {
+  reason: PauseReason | null; // null for pauses without a reason
+  count: number;
+  minutes: number;
+  sessions: number; // sessions with at least one such pause
+}
+
+export interface ConcentrationDistractionStat {
+  level: ConcentrationLevel;
+  sessions: number;
+  switchesPerHour: number;
+  pausesPerHour: number;
+}
+
+export interface DistractionStats {
+  trackedSessions: number;
+  focusedHours: number;
+  pauseCount: number;
+  pausedMinutes: number;
+  tabSwitches: number;
+  switchesPerHour: number | null; // per focused hour; null without tracked time
+  pausesPerHour: number | null;
+  reasons: PauseReasonStat[]; // most paused time first
+  byConcentration: ConcentrationDistractionStat[]; // levels with tracked sessions only
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const perHour = (count: number, seconds: number) => seconds > 0 ? round1(count / (seconds / 3600)) : null;
+
+export const getDistractionStats = (sessions: StudySession[]): DistractionStats => {
+  const tracked = sessions.filter(isDistractionTracked);
+  const focusedSeconds = tracked.reduce((acc, s) => acc + s.duration, 0);
+  const pauses = tracked.flatMap(s => s.pauses || []);
+  const tabSwitches = tracked.reduce((acc, s) => acc + (s.tabSwitches || 0), 0);
+
+  const byReason = new Map<PauseReason | null, SessionPause[]>();
+  pauses.forEach(p => byReason.set(p.reason ?? null, [...(byReason.get(p.reason ?? null) || []), p]));
+  const reasons = Array.from(byReason.entries())
+    .map(([reason, list]) => ({
+      reason,
+      count: list.length,
+      minutes: Math.round(getPausedSeconds(list) / 60),
+      sessions: tracked.filter(s => s.pauses?.some(p => (p.reason ?? null) === reason)).length,
+    }))
+    .sort((a, b) => b.minutes - a.minutes || b.count - a.count);
+
+  const byConcentration = ([1, 2, 3, 4, 5] as ConcentrationLevel[])
+    .map(level => {
+      const atLevel = tracked.filter(s => s.concentration === level);
+      const seconds = atLevel.reduce((acc, s) => acc + s.duration, 0);
+      return {
+        level,
+        sessions: atLevel.length,
+        switchesPerHour: perHour(atLevel.reduce((acc, s) => acc + (s.tabSwitches || 0), 0), seconds) ?? 0,
+        pausesPerHour: perHour(atLevel.reduce((acc, s) => acc + (s.pauses?.length || 0), 0), seconds) ?? 0,
+      };
+    })
+    .filter(stat => stat.sessions > 0);
+
+  return {
+    trackedSessions: tracked.length,
+    focusedHours: round1(focusedSeconds / 3600),
+    pauseCount: pauses.length,
+    pausedMinutes: Math.round(getPausedSeconds(pauses) / 60),
+    tabSwitches,
+    switchesPerHour: perHour(tabSwitches, focusedSeconds),
+    pausesPerHour: perHour(pauses.length, focusedSeconds),
+    reasons,
+    byConcentration,
+  };
+};
+
+export const formatPauseReason = (reason: PauseReason | null) => reason ? PAUSE_REASON_LABELS[reason] : 'No reason';
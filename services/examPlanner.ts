@@ -0,0 +1,178 @@
+import { ExamSettings, StudySession, SyllabusNodeProgress } from "../types";
+import { SyllabusIndex, getCoveragePercent, getOverallCoverage, resolveSessionNode } from "./syllabus";
+import { addLocalDays, diffLocalDays, startOfLocalDay } from "../utils/date";
+import { isRecord } from "../utils/guards";
+
+// Backward planner: works from the exam date to today using the syllabus
+// size, what has been logged so far and the pace of the last two weeks.
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = { neetPgDate: null, iniCetDate: null };
+
+export const PACE_WINDOW_DAYS = 14;
+
+export interface UpcomingExam {
+  key: keyof ExamSettings;
+  label: string;
+  date: number; // local midnight of exam day
+  daysLeft: number;
+}
+
+const EXAM_LABELS: Record<keyof ExamSettings, string> = {
+  neetPgDate: 'NEET PG',
+  iniCetDate: 'INI-CET',
+};
+
+const isDateString = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Anything that is not a YYYY-MM-DD date counts as no date set
+export const normalizeExamSettings = (raw: unknown): ExamSettings => ({
+  neetPgDate: isRecord(raw) && isDateString(raw.neetPgDate) ? raw.neetPgDate : null,
+  iniCetDate: isRecord(raw) && isDateString(raw.iniCetDate) ? raw.iniCetDate : null,
+});
+
+export const validateExamSettings = (raw: unknown): string[] => {
+  if (!isRecord(raw)) return ['not an object'];
+  return (Object.keys(EXAM_LABELS) as (keyof ExamSettings)[])
+    .filter(key => raw[key] !== undefined && raw[key] !== null && !isDateString(raw[key]))
+    .map(key => `"${key}" must be a YYYY-MM-DD date or null`);
+};
+
+// Exams that are today or later, nearest first
+export const getUpcomingExams = (settings: ExamSettings, now: number = Date.now()): UpcomingExam[] => {
+  return (Object.keys(EXAM_LABELS) as (keyof ExamSettings)[])
+    .filter(key => settings[key])
+    .map(key => {
+      const date = new Date(`${settings[key]}T00:00:00`).getTime();
+      return { key, label: EXAM_LABELS[key], date, daysLeft: diffLocalDays(now, date) };
+    })
+    .filter(exam => exam.daysLeft >= 0)
+    .sort((a, b) => a.date - b.date);
+};
+
+export type PlanPhaseKind = 'FIRST_READ' | 'R1' | 'R2' | 'GRAND_TESTS';
+
+export interface PlanPhase {
+  kind: PlanPhaseKind;
+  label: string;
+  start: number; // local midnight, inclusive
+  end: number; // local midnight, exclusive
+  days: number;
+}
+
+const PHASE_LABELS: Record<PlanPhaseKind, string> = {
+  FIRST_READ: 'First Read',
+  R1: 'Revision 1',
+  R2: 'Revision 2',
+  GRAND_TESTS: 'Grand Test Phase',
+};
+
+// Half the time goes to the first read of whatever is still uncovered; the
+// rest is split 40/30/30 between R1, R2 and the final Grand Test phase.
+export const getPlanPhases = (daysLeft: number, coveragePercent: number, now: number = Date.now()): PlanPhase[] => {
+  const firstReadShare = 0.5 * (1 - coveragePercent / 100);
+  const rest = 1 - firstReadShare;
+  const shares: [PlanPhaseKind, number][] = [
+    ['FIRST_READ', firstReadShare],
+    ['R1', rest * 0.4],
+    ['R2', rest * 0.3],
+    ['GRAND_TESTS', rest * 0.3],
+  ];
+
+  // Cumulative rounding keeps the phases adding up to exactly daysLeft
+  const today = startOfLocalDay(now);
+  let cumulative = 0;
+  let startDay = 0;
+  return shares
+    .map(([kind, share]) => {
+      cumulative += share;
+      const endDay = Math.round(cumulative * daysLeft);
+      const phase = {
+        kind,
+        label: PHASE_LABELS[kind],
+        start: addLocalDays(today, startDay),
+        end: addLocalDays(today, endDay),
+        days: endDay - startDay,
+      };
+      startDay = endDay;
+      return phase;
+    })
+    .filter(phase => phase.days > 0);
+};
+
+export interface SubjectPlan {
+  subject: string;
+  coverage: number; // percent of topics studied at least once
+  loggedHours: number;
+  targetHours: number; // fair share of the total prep hours by syllabus size
+  projectedHours: number; // logged plus the last two weeks' pace until the exam
+  requiredPerDay: number; // hours per day still needed to reach the target
+  onTrack: boolean;
+}
+
+export interface ExamPlan {
+  daysLeft: number;
+  paceHoursPerDay: number; // all subjects, last two weeks
+  projectedHours: number; // more hours expected at that pace
+  plannedHoursPerDay: number; // the daily goal, or the pace when no goal is set
+  coverage: number;
+  phases: PlanPhase[];
+  subjects: SubjectPlan[]; // subjects off track first
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const buildExamPlan = (
+  exam: UpcomingExam,
+  sessions: StudySession[],
+  index: SyllabusIndex,
+  progress: Map<string, SyllabusNodeProgress>,
+  dailyGoalHours: number,
+  now: number = Date.now()
+): ExamPlan => {
+  const windowStart = addLocalDays(startOfLocalDay(now), -PACE_WINDOW_DAYS + 1);
+  const recent = sessions.filter(s => s.startTime >= windowStart && s.startTime <= now);
+  const paceHoursPerDay = recent.reduce((acc, s) => acc + s.duration, 0) / 3600 / PACE_WINDOW_DAYS;
+  const plannedHoursPerDay = dailyGoalHours > 0 ? dailyGoalHours : paceHoursPerDay;
+
+  const recentBySubject = new Map<string, number>();
+  recent.forEach(s => {
+    const subject = resolveSessionNode(index, s)?.path[0];
+    if (subject) recentBySubject.set(subject.id, (recentBySubject.get(subject.id) || 0) + s.duration / 3600);
+  });
+
+  const subjects = index.entries.filter(e => e.path.length === 1);
+  const totalTopics = subjects.reduce((acc, e) => acc + progress.get(e.node.id)!.totalTopics, 0);
+  const loggedTotal = subjects.reduce((acc, e) => acc + progress.get(e.node.id)!.totalSeconds, 0) / 3600;
+  const budget = loggedTotal + plannedHoursPerDay * exam.daysLeft;
+  const coverage = getOverallCoverage(index, progress);
+
+  const subjectPlans = subjects.map(entry => {
+    const p = progress.get(entry.node.id)!;
+    const loggedHours = p.totalSeconds / 3600;
+    const targetHours = totalTopics > 0 ? budget * (p.totalTopics / totalTopics) : 0;
+    const subjectPace = (recentBySubject.get(entry.node.id) || 0) / PACE_WINDOW_DAYS;
+    const projectedHours = loggedHours + subjectPace * exam.daysLeft;
+    const remaining = Math.max(0, targetHours - loggedHours);
+    return {
+      subject: entry.node.title,
+      coverage: getCoveragePercent(p),
+      loggedHours: round1(loggedHours),
+      targetHours: round1(targetHours),
+      projectedHours: round1(projectedHours),
+      requiredPerDay: exam.daysLeft > 0 ? round1(remaining / exam.daysLeft) : round1(remaining),
+      onTrack: projectedHours >= targetHours,
+    };
+  });
+
+  return {
+    daysLeft: exam.daysLeft,
+    paceHoursPerDay: round1(paceHoursPerDay),
+    projectedHours: Math.round(paceHoursPerDay * exam.daysLeft),
+    plannedHoursPerDay: round1(plannedHoursPerDay),
+    coverage,
+    phases: getPlanPhases(exam.daysLeft, coverage, now),
+    subjects: subjectPlans.sort((a, b) =>
+      Number(a.onTrack) - Number(b.onTrack) || (b.targetHours - b.projectedHours) - (a.targetHours - a.projectedHours)
+    ),
+  };
+};
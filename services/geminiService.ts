@@ -1,98 +1,143 @@
-import { GoogleGenAI, SchemaType } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
 import { StudySession } from "../types";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatTurn,
+  INSIGHTS_SYSTEM_INSTRUCTION,
+  MAX_CHAT_TURNS,
+  MCQ_PROOF_PROMPT,
+  NO_SESSIONS_MESSAGE,
+  buildCoachChatInstruction,
+  buildCoachReportPrompt,
+  parseCoachReport,
+  parseMCQProofResult,
+  splitDataUrl,
+  toAIProviderError
+} from "./aiProvider";
 
-const apiKey = process.env.API_KEY || '';
-// Initialize securely; if no key, the app handles the error gracefully in the UI.
-const ai = new GoogleGenAI({ apiKey });
+const MODEL = 'gemini-2.5-flash';
 
-export const generateStudyInsights = async (sessions: StudySession[]): Promise<string> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please set the API_KEY environment variable.");
-  }
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  // Created on first use so a missing key only matters once Gemini is actually called
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) {
+      throw new AIProviderError("Gemini API key is missing. Add one in Settings or switch to another AI provider.", 'CONFIG');
+    }
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
 
-  if (sessions.length === 0) {
-    return "No study sessions recorded yet. Start your revision to get personalized insights!";
-  }
+  return {
+    id: 'GEMINI',
+    label: 'Google Gemini',
 
-  // Prepare data summary for the prompt to save tokens and be concise
-  const summary = sessions.map(s => ({
-    date: new Date(s.startTime).toLocaleDateString(),
-    durationMinutes: Math.round(s.duration / 60),
-    subject: s.subject,
-    concentration: s.concentration,
-    notes: s.notes || "None"
-  })).slice(-25); // Analyze last 25 sessions for relevance
-
-  const prompt = `
-    Analyze the following recent study sessions for a medical student preparing for the NEET PG exam.
-    Data: ${JSON.stringify(summary)}
-    
-    Provide a concise, high-yield, and actionable analysis in markdown format.
-    1. Identify trends in concentration relative to specific subjects (Standard 19 subjects) or time of day.
-    2. Give 3 specific tips to improve focus or retention, specifically tailored for high-volume medical syllabus revision.
-    3. Keep the tone motivational but professional, like a senior resident or mentor.
-  `;
+    generateCoachReport: async (sessions: StudySession[], facts: string[]) => {
+      if (sessions.length === 0) throw new AIProviderError(NO_SESSIONS_MESSAGE);
+      const ai = getClient();
+      try {
+        const response = await ai.models.generateContent({
+          model: MODEL,
+          contents: buildCoachReportPrompt(sessions, facts),
+          config: {
+            systemInstruction: INSIGHTS_SYSTEM_INSTRUCTION,
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                summary: { type: Type.STRING },
+                trends: { type: Type.ARRAY, items: { type: Type.STRING } },
+                weakSubjects: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { subject: { type: Type.STRING }, reason: { type: Type.STRING } },
+                    required: ['subject', 'reason'],
+                  },
+                },
+                actionItems: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      priority: { type: Type.STRING, enum: ['HIGH', 'MEDIUM', 'LOW'] },
+                      subject: { type: Type.STRING },
+                    },
+                    required: ['text', 'priority'],
+                  },
+                },
+                focusTip: { type: Type.STRING },
+              },
+              required: ['summary', 'trends', 'weakSubjects', 'actionItems', 'focusTip'],
+            },
+          }
+        });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction: "You are an expert NEET PG study coach and productivity analyst.",
+        const text = response.text;
+        if (!text) throw new AIProviderError("Could not generate insights at this time.", 'INVALID_RESPONSE');
+        return parseCoachReport(text);
+      } catch (error) {
+        console.error("Gemini API Error:", error);
+        throw toAIProviderError(error, "Sorry, I couldn't analyze your data right now. Please try again later.");
       }
-    });
-    return response.text || "Could not generate insights at this time.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Sorry, I couldn't analyze your data right now. Please try again later.";
-  }
-};
+    },
 
-export const verifyMCQProof = async (base64Image: string): Promise<{ verified: boolean; count: number; feedback: string }> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing.");
-  }
-
-  // Clean the base64 string if it contains the header
-  const data = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+    chat: async (history: ChatTurn[], context: string) => {
+      const ai = getClient();
+      try {
+        const response = await ai.models.generateContent({
+          model: MODEL,
+          contents: history.slice(-MAX_CHAT_TURNS).map(turn => ({
+            role: turn.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: turn.content }],
+          })),
+          config: {
+            systemInstruction: buildCoachChatInstruction(context),
+          }
+        });
+        if (!response.text) throw new AIProviderError("The coach did not answer. Please try again.", 'INVALID_RESPONSE');
+        return response.text;
+      } catch (error) {
+        console.error("Gemini Chat Error:", error);
+        throw toAIProviderError(error, "Sorry, I couldn't reach the coach right now. Please try again later.");
+      }
+    },
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png', // Assuming png/jpeg, API is flexible with this mimeType param for common images
-              data: data
-            }
+    verifyMCQProof: async (base64Image: string) => {
+      const ai = getClient();
+      const { mimeType, data } = splitDataUrl(base64Image);
+      try {
+        const response = await ai.models.generateContent({
+          model: MODEL,
+          contents: {
+            parts: [
+              { inlineData: { mimeType, data } },
+              { text: MCQ_PROOF_PROMPT }
+            ]
           },
-          {
-            text: `Analyze this image submitted by a NEET PG aspirant. They claim to have solved MCQs. 
-            Check if the image is a screenshot of a quiz app (like Marrow, Prepladder, etc.), a photo of a scorecard, or a handwritten log showing questions solved.
-            
-            Return a JSON object with:
-            1. verified: boolean (true if it looks like legitimate study proof)
-            2. count: number (The number of MCQs solved visible in the image. If they just say "100 solved" in handwriting, accept 100. If no number is visible but activity is verified, return 0).
-            3. feedback: string (A short encouraging message confirming the count, or explaining why it was rejected).`
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                verified: { type: Type.BOOLEAN },
+                count: { type: Type.INTEGER },
+                feedback: { type: Type.STRING },
+              },
+              required: ['verified', 'count', 'feedback'],
+            },
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-      }
-    });
+        });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-    
-    return JSON.parse(text);
-  } catch (error) {
-    console.error("MCQ Verification Error:", error);
-    return {
-      verified: false,
-      count: 0,
-      feedback: "AI verification failed. Please check your internet connection or try a clearer image."
-    };
-  }
-};
\ No newline at end of file
+        const text = response.text;
+        if (!text) throw new AIProviderError("No response from AI", 'INVALID_RESPONSE');
+        return parseMCQProofResult(text);
+      } catch (error) {
+        console.error("MCQ Verification Error:", error);
+        throw toAIProviderError(error, "AI verification failed. Please try again or use a clearer image.");
+      }
+    },
+  };
+};
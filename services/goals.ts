@@ -0,0 +1,151 @@
+import { GoalSettings, GoalStreak, MCQLog, StudySession } from "../types";
+import { SyllabusIndex, getSessionSubjectGroup } from "./syllabus";
+import { addLocalDays, getLocalDateString, startOfLocalDay, startOfLocalWeek } from "../utils/date";
+import { isRecord } from "../utils/guards";
+
+export const DEFAULT_GOALS: GoalSettings = {
+  dailyStudyHours: 6,
+  dailyMCQs: 100,
+  weeklySubjectHours: {},
+  restDays: [],
+};
+
+const isTarget = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Fills in anything missing or malformed in goals saved by an older version or a backup
+export const normalizeGoals = (raw: unknown): GoalSettings => {
+  if (!isRecord(raw)) return { ...DEFAULT_GOALS, weeklySubjectHours: {}, restDays: [] };
+  const weeklySubjectHours: Record<string, number> = {};
+  if (isRecord(raw.weeklySubjectHours)) {
+    Object.entries(raw.weeklySubjectHours).forEach(([subject, hours]) => {
+      if (isTarget(hours)) weeklySubjectHours[subject] = hours;
+    });
+  }
+  return {
+    dailyStudyHours: isTarget(raw.dailyStudyHours) ? raw.dailyStudyHours : DEFAULT_GOALS.dailyStudyHours,
+    dailyMCQs: isTarget(raw.dailyMCQs) ? raw.dailyMCQs : DEFAULT_GOALS.dailyMCQs,
+    weeklySubjectHours,
+    restDays: Array.isArray(raw.restDays) ? raw.restDays.filter((d): d is string => typeof d === 'string') : [],
+  };
+};
+
+export const validateGoals = (raw: unknown): string[] => {
+  if (!isRecord(raw)) return ['not an object'];
+  const problems: string[] = [];
+  if (!isTarget(raw.dailyStudyHours)) problems.push('"dailyStudyHours" must be 0 or more');
+  if (!isTarget(raw.dailyMCQs)) problems.push('"dailyMCQs" must be 0 or more');
+  if (!isRecord(raw.weeklySubjectHours) || !Object.values(raw.weeklySubjectHours).every(isTarget)) {
+    problems.push('"weeklySubjectHours" must map subjects to hours');
+  }
+  if (!Array.isArray(raw.restDays) || !raw.restDays.every((d: unknown) => typeof d === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(d))) {
+    problems.push('"restDays" must be a list of YYYY-MM-DD dates');
+  }
+  return problems;
+};
+
+// Daily totals keyed by local YYYY-MM-DD
+
+export const getDailyStudyHours = (sessions: StudySession[]) => {
+  const totals = new Map<string, number>();
+  sessions.forEach(s => {
+    const day = getLocalDateString(s.startTime);
+    totals.set(day, (totals.get(day) || 0) + s.duration / 3600);
+  });
+  return totals;
+};
+
+export const getDailyMCQCounts = (logs: MCQLog[]) => {
+  const totals = new Map<string, number>();
+  logs.forEach(l => {
+    const day = getLocalDateString(l.timestamp);
+    totals.set(day, (totals.get(day) || 0) + l.count);
+  });
+  return totals;
+};
+
+// Walks forward from the first logged day to today. A met day extends the
+// streak, a rest day is skipped, and a missed day resets it. Today only
+// counts once it is met, so an unfinished today never breaks the streak.
+export const getDailyStreak = (
+  totals: Map<string, number>,
+  target: number,
+  restDays: string[],
+  now: number = Date.now()
+): GoalStreak => {
+  if (target <= 0 || totals.size === 0) return { current: 0, longest: 0 };
+  const rest = new Set(restDays);
+  const today = getLocalDateString(now);
+  const first = Math.min(...Array.from(totals.keys()).map(d => new Date(`${d}T00:00:00`).getTime()));
+
+  let current = 0;
+  let longest = 0;
+  for (let day = startOfLocalDay(first); day <= now; day = addLocalDays(day, 1)) {
+    const key = getLocalDateString(day);
+    if ((totals.get(key) || 0) >= target) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (!rest.has(key) && key !== today) {
+      current = 0;
+    }
+  }
+  return { current, longest };
+};
+
+export interface WeeklySubjectProgress {
+  subject: string;
+  targetHours: number; // reduced for rest days in the current week
+  hours: number;
+  streak: GoalStreak;
+}
+
+// Weekly per-subject hours. Each rest day takes a seventh off that week's
+// target; a week made only of rest days is skipped rather than missed.
+export const getWeeklySubjectProgress = (
+  goals: GoalSettings,
+  sessions: StudySession[],
+  index: SyllabusIndex,
+  now: number = Date.now()
+): WeeklySubjectProgress[] => {
+  const rest = new Set(goals.restDays);
+  const thisWeek = startOfLocalWeek(now);
+
+  const restDaysIn = (weekStart: number) =>
+    Array.from({ length: 7 }, (_, i) => getLocalDateString(addLocalDays(weekStart, i))).filter(d => rest.has(d)).length;
+
+  return Object.entries(goals.weeklySubjectHours)
+    .filter(([, hours]) => hours > 0)
+    .map(([subject, hours]) => {
+      const key = subject.toLowerCase();
+      const byWeek = new Map<number, number>();
+      sessions
+        .filter(s => getSessionSubjectGroup(index, s).toLowerCase() === key)
+        .forEach(s => {
+          const week = startOfLocalWeek(s.startTime);
+          byWeek.set(week, (byWeek.get(week) || 0) + s.duration / 3600);
+        });
+
+      const targetFor = (weekStart: number) => hours * (7 - restDaysIn(weekStart)) / 7;
+
+      let current = 0;
+      let longest = 0;
+      if (byWeek.size > 0) {
+        for (let week = Math.min(...byWeek.keys()); week <= thisWeek; week = addLocalDays(week, 7)) {
+          const target = targetFor(week);
+          if (target === 0) continue;
+          if ((byWeek.get(week) || 0) >= target) {
+            current++;
+            longest = Math.max(longest, current);
+          } else if (week !== thisWeek) {
+            current = 0;
+          }
+        }
+      }
+
+      return {
+        subject,
+        targetHours: Math.round(targetFor(thisWeek) * 10) / 10,
+        hours: Math.round((byWeek.get(thisWeek) || 0) * 10) / 10,
+        streak: { current, longest },
+      };
+    });
+};
@@ -0,0 +1,154 @@
+import { MCQLog } from "../types";
+import { AIErrorKind, AIProvider, classifyAIError } from "./aiProvider";
+import { downscaleImage, sha256Hex } from "../utils/image";
+
+// Proof upload pipeline: duplicate check on the original bytes, downscale,
+// then the AI check. Every outcome comes back as a value and lands in a
+// review queue; nothing becomes an MCQLog until the user confirms it.
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024; // refuse before decoding anything this big
+const MAX_DIMENSION = 1600; // scorecard text stays readable at this size
+const MAX_SENT_BYTES = 1024 * 1024;
+const PROOF_CONCURRENCY = 3; // parallel AI checks per batch
+
+export type ProofFailureKind = AIErrorKind | 'REJECTED' | 'DUPLICATE' | 'BAD_IMAGE';
+
+export type ProofCheckResult =
+  | { status: 'VERIFIED'; count: number; feedback: string; proofHash: string }
+  | { status: 'FAILED'; kind: ProofFailureKind; message: string; proofHash?: string };
+
+export type ProofReviewStatus = 'CHECKING' | 'VERIFIED' | 'FAILED';
+
+// One uploaded image waiting for the user in the review queue
+export interface ProofReviewItem {
+  id: string;
+  file: File;
+  previewUrl: string; // object URL, revoked when the item leaves the queue
+  status: ProofReviewStatus;
+  aiCount: number | null; // what the AI read; null until verified
+  count: number; // what will be logged, editable by the user
+  subject: string;
+  feedback: string; // AI feedback, or the reason the check failed
+  failureKind?: ProofFailureKind;
+  proofHash?: string;
+}
+
+export const PROOF_FAILURE_TITLES: Record<ProofFailureKind, string> = {
+  REJECTED: 'Proof rejected',
+  DUPLICATE: 'Already uploaded',
+  BAD_IMAGE: 'Unreadable image',
+  NETWORK: 'Connection problem',
+  QUOTA: 'AI limit reached',
+  CONFIG: 'AI provider not set up',
+  INVALID_RESPONSE: 'Unclear AI reply',
+  UNKNOWN: 'Verification failed',
+};
+
+export const findDuplicateProof = (proofHash: string, logs: MCQLog[]) =>
+  logs.find(l => l.proofHash === proofHash);
+
+// `claimed` holds hashes of other images in the same batch; the hash is added
+// right after it is computed, so two copies of one file can't both pass.
+export const checkMCQProof = async (
+  file: File,
+  provider: AIProvider,
+  logs: MCQLog[],
+  claimed: Set<string> = new Set()
+): Promise<ProofCheckResult> => {
+  if (!file.type.startsWith('image/')) {
+    return { status: 'FAILED', kind: 'BAD_IMAGE', message: `${file.name} is not an image.` };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { status: 'FAILED', kind: 'BAD_IMAGE', message: `${file.name} is larger than 20MB.` };
+  }
+
+  const proofHash = await sha256Hex(file);
+  const duplicate = findDuplicateProof(proofHash, logs);
+  if (duplicate) {
+    return {
+      status: 'FAILED',
+      kind: 'DUPLICATE',
+      message: `This image was already counted on ${new Date(duplicate.timestamp).toLocaleDateString()} for ${duplicate.count} MCQs.`,
+      proofHash,
+    };
+  }
+  if (claimed.has(proofHash)) {
+    return { status: 'FAILED', kind: 'DUPLICATE', message: "The same image is already in this upload.", proofHash };
+  }
+  claimed.add(proofHash);
+
+  let dataUrl: string;
+  try {
+    ({ dataUrl } = await downscaleImage(file, MAX_DIMENSION, MAX_SENT_BYTES));
+  } catch (error) {
+    console.error("Proof image error:", error);
+    return { status: 'FAILED', kind: 'BAD_IMAGE', message: `${file.name} could not be opened. Try a JPEG or PNG screenshot.`, proofHash };
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false && provider.id !== 'OFFLINE') {
+    return { status: 'FAILED', kind: 'NETWORK', message: "You are offline. Retry once you are connected.", proofHash };
+  }
+
+  try {
+    const result = await provider.verifyMCQProof(dataUrl);
+    if (!result.verified) {
+      return { status: 'FAILED', kind: 'REJECTED', message: result.feedback || "The image does not look like MCQ practice.", proofHash };
+    }
+    if (result.count === 0) {
+      return { status: 'FAILED', kind: 'REJECTED', message: "No MCQ count is visible in the image.", proofHash };
+    }
+    return { status: 'VERIFIED', count: result.count, feedback: result.feedback, proofHash };
+  } catch (error) {
+    console.error("MCQ proof error:", error);
+    return {
+      status: 'FAILED',
+      kind: classifyAIError(error),
+      message: error instanceof Error ? error.message : "An error occurred during verification.",
+      proofHash,
+    };
+  }
+};
+
+// Checks a batch a few files at a time, reporting each result as it arrives
+export const checkMCQProofs = async (
+  files: File[],
+  provider: AIProvider,
+  logs: MCQLog[],
+  claimed: Set<string>,
+  onResult: (index: number, result: ProofCheckResult) => void
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      onResult(index, await checkMCQProof(files[index], provider, logs, claimed));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PROOF_CONCURRENCY, files.length) }, worker));
+};
+
+export const applyProofResult = (item: ProofReviewItem, result: ProofCheckResult): ProofReviewItem =>
+  result.status === 'VERIFIED'
+    ? { ...item, status: 'VERIFIED', aiCount: result.count, count: result.count, feedback: result.feedback, failureKind: undefined, proofHash: result.proofHash }
+    : { ...item, status: 'FAILED', aiCount: null, feedback: result.message, failureKind: result.kind, proofHash: result.proofHash };
+
+// Duplicates can never be logged; any other failure may be logged by hand as unverified
+export const canOverrideProof = (item: ProofReviewItem) =>
+  item.status === 'FAILED' && item.failureKind !== 'DUPLICATE';
+
+// A proof stays verified only when the user keeps the count the AI read
+export const proofItemToLog = (item: ProofReviewItem, now: number = Date.now()): MCQLog => {
+  const verified = item.status === 'VERIFIED' && item.count === item.aiCount;
+  let feedback = item.feedback;
+  if (item.status === 'VERIFIED' && !verified) feedback = `${item.feedback} (count corrected from ${item.aiCount})`;
+  if (item.status === 'FAILED') feedback = `Logged without AI verification. ${PROOF_FAILURE_TITLES[item.failureKind!]}: ${item.feedback}`;
+  return {
+    id: crypto.randomUUID(),
+    timestamp: now,
+    count: item.count,
+    verified,
+    feedback,
+    ...(item.subject.trim() ? { subject: item.subject.trim() } : {}),
+    ...(item.proofHash ? { proofHash: item.proofHash } : {}),
+  };
+};
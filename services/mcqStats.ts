@@ -0,0 +1,79 @@
+import { MCQLog } from "../types";
+import { addLocalDays, startOfLocalDay } from "../utils/date";
+
+export const COMMON_QBANKS = ["Marrow", "PrepLadder", "DAMS", "Cerebellum", "eGurukul", "BTR"];
+
+export interface MCQDraft {
+  timestamp: number;
+  subject: string;
+  source: string;
+  attempted: number;
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  timeTakenMinutes: number;
+}
+
+export const validateMCQDraft = (draft: MCQDraft, now: number = Date.now()): string[] => {
+  const errors: string[] = [];
+  const counts = [draft.attempted, draft.correct, draft.incorrect, draft.skipped];
+
+  if (!draft.subject.trim()) errors.push("Subject is required.");
+  if (!Number.isFinite(draft.timestamp)) errors.push("Date and time are required.");
+  else if (draft.timestamp > now + 60 * 1000) errors.push("MCQ blocks cannot be logged in the future.");
+  if (counts.some(n => !Number.isInteger(n) || n < 0)) errors.push("Counts must be whole numbers of 0 or more.");
+  if (draft.attempted === 0) errors.push("Attempted must be at least 1.");
+  if (draft.correct + draft.incorrect !== draft.attempted) {
+    errors.push(`Correct + incorrect (${draft.correct + draft.incorrect}) must equal attempted (${draft.attempted}).`);
+  }
+  if (!Number.isFinite(draft.timeTakenMinutes) || draft.timeTakenMinutes < 0) errors.push("Time taken must be 0 or more minutes.");
+
+  return errors;
+};
+
+// Logs that carry a correct/incorrect split; AI-counted proofs only have a total
+export const hasScore = (log: MCQLog) => typeof log.correct === 'number' && typeof log.incorrect === 'number';
+
+export interface AccuracySummary {
+  attempted: number;
+  correct: number;
+  accuracy: number | null; // percent, null when nothing was scored
+}
+
+export const getAccuracy = (logs: MCQLog[]): AccuracySummary => {
+  const scored = logs.filter(hasScore);
+  const correct = scored.reduce((acc, l) => acc + l.correct!, 0);
+  const attempted = scored.reduce((acc, l) => acc + l.correct! + l.incorrect!, 0);
+  return {
+    attempted,
+    correct,
+    accuracy: attempted > 0 ? Math.round((correct / attempted) * 1000) / 10 : null,
+  };
+};
+
+export const getSubjectAccuracy = (logs: MCQLog[]) => {
+  const bySubject = new Map<string, MCQLog[]>();
+  logs.filter(l => hasScore(l) && l.subject).forEach(l => {
+    bySubject.set(l.subject!, [...(bySubject.get(l.subject!) || []), l]);
+  });
+  return Array.from(bySubject.entries())
+    .map(([subject, subjectLogs]) => ({ subject, ...getAccuracy(subjectLogs) }))
+    .sort((a, b) => (a.accuracy ?? 0) - (b.accuracy ?? 0));
+};
+
+// Weekly accuracy for the last `weeks` weeks (oldest first), optionally for one subject
+export const getWeeklyAccuracyTrend = (logs: MCQLog[], weeks: number = 8, subject?: string, now: number = Date.now()) => {
+  const relevant = subject ? logs.filter(l => l.subject === subject) : logs;
+  const thisWeekStart = addLocalDays(startOfLocalDay(now), -6);
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = addLocalDays(thisWeekStart, -7 * (weeks - 1 - i));
+    const end = addLocalDays(start, 7);
+    const summary = getAccuracy(relevant.filter(l => l.timestamp >= start && l.timestamp < end));
+    return {
+      week: new Date(start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      accuracy: summary.accuracy,
+      attempted: summary.attempted,
+    };
+  });
+};
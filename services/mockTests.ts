@@ -0,0 +1,135 @@
+import { MockTest, StudySession, SubjectMarks } from "../types";
+import { SyllabusIndex, getSessionSubjectGroup } from "./syllabus";
+
+// NEET PG: 200 questions, +4 for a correct answer and -1 for a wrong one
+export const NEET_PG_MAX_SCORE = 800;
+export const MARKS_PER_QUESTION = 4;
+
+export interface MockTestDraft {
+  name: string;
+  date: number;
+  totalScore: number;
+  maxScore: number;
+  subjectMarks: SubjectMarks[];
+  rank?: number;
+  percentile?: number;
+}
+
+export const validateMockTestDraft = (draft: MockTestDraft, now: number = Date.now()): string[] => {
+  const errors: string[] = [];
+
+  if (!draft.name.trim()) errors.push("Test name is required.");
+  if (!Number.isFinite(draft.date)) errors.push("Test date is required.");
+  else if (draft.date > now + 60 * 1000) errors.push("Tests cannot be logged in the future.");
+  if (!Number.isFinite(draft.totalScore)) errors.push("Total score is required.");
+  else if (draft.totalScore > draft.maxScore) errors.push(`Total score cannot be more than ${draft.maxScore}.`);
+  if (draft.rank !== undefined && (!Number.isInteger(draft.rank) || draft.rank < 1)) errors.push("Rank must be a whole number of 1 or more.");
+  if (draft.percentile !== undefined && !(draft.percentile >= 0 && draft.percentile <= 100)) errors.push("Percentile must be between 0 and 100.");
+
+  draft.subjectMarks.forEach(m => {
+    if (!m.subject.trim()) errors.push("Every subject row needs a subject.");
+    else if (!(m.maxMarks > 0)) errors.push(`${m.subject}: "out of" must be more than 0.`);
+    else if (!Number.isFinite(m.marks) || m.marks > m.maxMarks) errors.push(`${m.subject}: marks must be a number up to ${m.maxMarks}.`);
+  });
+  const names = draft.subjectMarks.map(m => m.subject.trim().toLowerCase()).filter(Boolean);
+  if (new Set(names).size !== names.length) errors.push("Each subject can only be listed once.");
+
+  const subjectTotal = draft.subjectMarks.reduce((acc, m) => acc + m.maxMarks, 0);
+  if (subjectTotal > draft.maxScore) errors.push(`Subject "out of" marks add up to ${subjectTotal}, more than the test's ${draft.maxScore}.`);
+
+  return errors;
+};
+
+export const getScorePercent = (marks: number, maxMarks: number) => Math.round((marks / maxMarks) * 1000) / 10;
+
+const subjectKey = (subject: string) => subject.trim().toLowerCase();
+
+// Score, rank and percentile per test, oldest first, for the trend charts
+export const getScoreTrend = (tests: MockTest[]) =>
+  [...tests]
+    .sort((a, b) => a.date - b.date)
+    .map(t => ({
+      id: t.id,
+      name: t.name,
+      label: new Date(t.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      score: t.totalScore,
+      percent: getScorePercent(t.totalScore, t.maxScore),
+      rank: t.rank ?? null,
+      percentile: t.percentile ?? null,
+    }));
+
+export interface SubjectPerformance {
+  subject: string;
+  averagePercent: number;
+  latestPercent: number;
+  testsCount: number;
+}
+
+// Average share of marks per subject across every test that reported it, weakest first
+export const getWeakestSubjects = (tests: MockTest[]): SubjectPerformance[] => {
+  const bySubject = new Map<string, { subject: string; percents: number[]; latest: { date: number; percent: number } }>();
+
+  tests.forEach(test => {
+    test.subjectMarks.forEach(m => {
+      const percent = getScorePercent(m.marks, m.maxMarks);
+      const key = subjectKey(m.subject);
+      const entry = bySubject.get(key);
+      if (!entry) {
+        bySubject.set(key, { subject: m.subject, percents: [percent], latest: { date: test.date, percent } });
+        return;
+      }
+      entry.percents.push(percent);
+      if (test.date > entry.latest.date) entry.latest = { date: test.date, percent };
+    });
+  });
+
+  return Array.from(bySubject.values())
+    .map(e => ({
+      subject: e.subject,
+      averagePercent: Math.round((e.percents.reduce((a, b) => a + b, 0) / e.percents.length) * 10) / 10,
+      latestPercent: e.latest.percent,
+      testsCount: e.percents.length,
+    }))
+    .sort((a, b) => a.averagePercent - b.averagePercent);
+};
+
+export interface SubjectPreparation {
+  subject: string;
+  percent: number;
+  hoursSincePrevious: number; // studied between the previous test and this one
+  hoursBefore: number; // everything studied before this test
+}
+
+// Study hours per subject leading up to a test, next to the marks scored.
+// Sessions are matched on their syllabus subject, so topic sessions count too.
+export const getTestPreparation = (
+  test: MockTest,
+  tests: MockTest[],
+  sessions: StudySession[],
+  index: SyllabusIndex
+): SubjectPreparation[] => {
+  const previous = tests
+    .filter(t => t.id !== test.id && t.date < test.date)
+    .sort((a, b) => b.date - a.date)[0];
+  const windowStart = previous ? previous.date : -Infinity;
+
+  const since = new Map<string, number>();
+  const before = new Map<string, number>();
+  sessions
+    .filter(s => s.startTime < test.date)
+    .forEach(s => {
+      const key = subjectKey(getSessionSubjectGroup(index, s));
+      before.set(key, (before.get(key) || 0) + s.duration);
+      if (s.startTime >= windowStart) since.set(key, (since.get(key) || 0) + s.duration);
+    });
+
+  const toHours = (seconds = 0) => Math.round((seconds / 3600) * 10) / 10;
+  return test.subjectMarks
+    .map(m => ({
+      subject: m.subject,
+      percent: getScorePercent(m.marks, m.maxMarks),
+      hoursSincePrevious: toHours(since.get(subjectKey(m.subject))),
+      hoursBefore: toHours(before.get(subjectKey(m.subject))),
+    }))
+    .sort((a, b) => a.percent - b.percent);
+};
@@ -0,0 +1,96 @@
+import { StudySession } from "../types";
+import { AIProvider, AIProviderError, CoachReportContent, NO_SESSIONS_MESSAGE } from "./aiProvider";
+
+// Rule-based provider that runs entirely in the browser. The same sessions
+// always give the same report, which also makes it a predictable stand-in
+// for a model in tests.
+
+const TIME_BLOCKS: { label: string; from: number; to: number }[] = [
+  { label: 'Early morning (4–8)', from: 4, to: 8 },
+  { label: 'Morning (8–12)', from: 8, to: 12 },
+  { label: 'Afternoon (12–17)', from: 12, to: 17 },
+  { label: 'Evening (17–21)', from: 17, to: 21 },
+  { label: 'Night (21–4)', from: 21, to: 28 },
+];
+
+const getTimeBlock = (timestamp: number) => {
+  const hour = new Date(timestamp).getHours();
+  const shifted = hour < 4 ? hour + 24 : hour;
+  return TIME_BLOCKS.find(b => shifted >= b.from && shifted < b.to)!.label;
+};
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const groupConcentration = (sessions: StudySession[], key: (s: StudySession) => string) => {
+  const groups = new Map<string, StudySession[]>();
+  sessions.forEach(s => groups.set(key(s), [...(groups.get(key(s)) || []), s]));
+  return Array.from(groups.entries())
+    .map(([name, group]) => ({
+      name,
+      avg: average(group.map(s => s.concentration)),
+      minutes: Math.round(group.reduce((acc, s) => acc + s.duration, 0) / 60),
+      count: group.length,
+    }))
+    .sort((a, b) => b.avg - a.avg || b.minutes - a.minutes);
+};
+
+export const buildOfflineReport = (sessions: StudySession[]): CoachReportContent => {
+  const recent = [...sessions].sort((a, b) => a.startTime - b.startTime).slice(-25);
+  const totalMinutes = Math.round(recent.reduce((acc, s) => acc + s.duration, 0) / 60);
+  const avgFocus = average(recent.map(s => s.concentration));
+  const avgLength = totalMinutes / recent.length;
+
+  const bySubject = groupConcentration(recent, s => s.subject);
+  const byTime = groupConcentration(recent, s => getTimeBlock(s.startTime));
+  const bestTime = byTime[0];
+  const worstTime = byTime[byTime.length - 1];
+
+  // Subjects below the overall average, weakest first
+  const weak = bySubject.filter(s => s.avg < avgFocus).reverse().slice(0, 3);
+
+  const actionItems: CoachReportContent['actionItems'] = weak.map(s => ({
+    text: `Study ${s.name} for 90 minutes in your ${bestTime.name.toLowerCase()} slot, then solve 20 MCQs on it`,
+    priority: 'HIGH',
+    subject: s.name,
+  }));
+  if (avgLength > 90) actionItems.push({ text: "Split long sittings into 50/10 interval blocks", priority: 'MEDIUM' });
+  if (avgLength < 30) actionItems.push({ text: "Do one 60–90 minute deep block a day for a heavy subject like Medicine or Surgery", priority: 'MEDIUM' });
+  actionItems.push({ text: "Revise each topic on day 1, 3 and 7 after the first read using the Revision Queue", priority: 'LOW' });
+  actionItems.push({ text: "Close every study day with a short MCQ block on what you read", priority: 'LOW' });
+
+  return {
+    summary: `Based on your last ${recent.length} sessions: ${(totalMinutes / 60).toFixed(1)} hours, average focus ${avgFocus.toFixed(1)}/5 and an average session of ${Math.round(avgLength)} min.`,
+    trends: [
+      ...bySubject.slice(0, 3).map(s => `${s.name}: ${s.avg.toFixed(1)}/5 focus over ${s.count} sessions (${s.minutes} min)`),
+      `Best time of day: ${bestTime.name} (${bestTime.avg.toFixed(1)}/5)` +
+        (byTime.length > 1 ? `; weakest: ${worstTime.name} (${worstTime.avg.toFixed(1)}/5)` : ''),
+    ],
+    weakSubjects: weak.map(s => ({ subject: s.name, reason: `Average focus ${s.avg.toFixed(1)}/5 over ${s.count} sessions` })),
+    actionItems,
+    focusTip: avgFocus < 3
+      ? "Average focus is below 3/5. Keep your phone in another room and decide each block's topic before the timer starts."
+      : `Your focus peaks in the ${bestTime.name.toLowerCase()}. Guard that slot for new reading and move MCQs and revision to other hours.`,
+  };
+};
+
+export const createOfflineProvider = (): AIProvider => ({
+  id: 'OFFLINE',
+  label: 'Offline (on this device)',
+
+  // Facts are prompt context for a model, partly about the previous report;
+  // as trends they would read as this week's news, so they are left out here
+  generateCoachReport: async (sessions: StudySession[]) => {
+    if (sessions.length === 0) throw new AIProviderError(NO_SESSIONS_MESSAGE);
+    return buildOfflineReport(sessions);
+  },
+
+  // Free-form answers need a language model
+  chat: async () => {
+    throw new AIProviderError("The offline coach can't chat. Pick Gemini or a local model under AI Provider in Settings.");
+  },
+
+  // Reading a scorecard needs a vision model; nothing is counted offline
+  verifyMCQProof: async () => {
+    throw new AIProviderError("Proof images can't be checked offline. Log the block manually, or pick an AI provider in Settings.", 'CONFIG');
+  },
+});
@@ -0,0 +1,91 @@
+import { StudySession } from "../types";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatTurn,
+  INSIGHTS_SYSTEM_INSTRUCTION,
+  MAX_CHAT_TURNS,
+  MCQ_PROOF_PROMPT,
+  NO_SESSIONS_MESSAGE,
+  buildCoachChatInstruction,
+  buildCoachReportPrompt,
+  classifyAIError,
+  parseCoachReport,
+  parseMCQProofResult
+} from "./aiProvider";
+import { isRecord } from "../utils/guards";
+
+// Any server speaking the OpenAI chat completions API: Ollama, LM Studio,
+// llama.cpp, vLLM and similar self-hosted models.
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+}
+
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey: string): AIProvider => {
+  const complete = async (messages: ChatMessage[]): Promise<string> => {
+    if (!baseUrl.trim() || !model.trim()) {
+      throw new AIProviderError("Set the endpoint URL and model for the local AI provider in Settings.", 'CONFIG');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: model.trim(), messages }),
+      });
+    } catch (error) {
+      throw new AIProviderError(`Could not reach the AI endpoint at ${baseUrl}. Is the server running and allowing this origin?`, 'NETWORK', error);
+    }
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `The AI endpoint answered with ${response.status} ${response.statusText}.`,
+        classifyAIError({ status: response.status })
+      );
+    }
+    const body: unknown = await response.json().catch(() => null);
+    const choice = isRecord(body) && Array.isArray(body.choices) ? body.choices[0] : undefined;
+    const text = isRecord(choice) && isRecord(choice.message) ? choice.message.content : undefined;
+    if (typeof text !== 'string' || !text) throw new AIProviderError("The AI endpoint returned an empty reply.", 'INVALID_RESPONSE');
+    return text;
+  };
+
+  return {
+    id: 'OPENAI_COMPATIBLE',
+    label: 'OpenAI-compatible endpoint',
+
+    generateCoachReport: async (sessions: StudySession[], facts: string[]) => {
+      if (sessions.length === 0) throw new AIProviderError(NO_SESSIONS_MESSAGE);
+      const text = await complete([
+        { role: 'system', content: INSIGHTS_SYSTEM_INSTRUCTION },
+        { role: 'user', content: `${buildCoachReportPrompt(sessions, facts)}\n\nReply with the JSON object only.` },
+      ]);
+      return parseCoachReport(text);
+    },
+
+    chat: async (history: ChatTurn[], context: string) =>
+      complete([
+        { role: 'system', content: buildCoachChatInstruction(context) },
+        ...history.slice(-MAX_CHAT_TURNS).map(turn => ({ role: turn.role, content: turn.content })),
+      ]),
+
+    verifyMCQProof: async (base64Image: string) => {
+      const text = await complete([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: `${MCQ_PROOF_PROMPT}\n\nReply with the JSON object only.` },
+            { type: 'image_url', image_url: { url: base64Image } },
+          ],
+        },
+      ]);
+      return parseMCQProofResult(text);
+    },
+  };
+};
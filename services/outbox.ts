@@ -0,0 +1,39 @@
+import { OutboxEntry } from "../types";
+
+// AI requests made while offline wait here (persisted in IndexedDB) and are
+// sent again once the browser reports a connection.
+
+export const OUTBOX_RETRY_MS = 60 * 1000; // periodic retry while entries are waiting
+
+export const createProofOutboxEntry = (file: File, now: number = Date.now()): OutboxEntry => ({
+  id: crypto.randomUUID(),
+  kind: 'MCQ_PROOF',
+  createdAt: now,
+  attempts: 0,
+  image: file,
+  fileName: file.name,
+});
+
+export const createReportOutboxEntry = (now: number = Date.now()): OutboxEntry => ({
+  id: crypto.randomUUID(),
+  kind: 'COACH_REPORT',
+  createdAt: now,
+  attempts: 0,
+});
+
+// A report request reads the data at send time, so one pending is enough
+export const hasPendingReport = (outbox: OutboxEntry[]) =>
+  outbox.some(e => e.kind === 'COACH_REPORT');
+
+// IndexedDB keeps the Blob; the proof pipeline wants the File back
+export const outboxEntryToFile = (entry: OutboxEntry) =>
+  new File([entry.image!], entry.fileName || 'proof', { type: entry.image!.type });
+
+export const describeOutbox = (outbox: OutboxEntry[]) => {
+  const proofs = outbox.filter(e => e.kind === 'MCQ_PROOF').length;
+  const parts = [
+    ...(proofs > 0 ? [`${proofs} proof ${proofs === 1 ? 'check' : 'checks'}`] : []),
+    ...(hasPendingReport(outbox) ? ['a coach report'] : []),
+  ];
+  return parts.join(' and ');
+};
@@ -0,0 +1,146 @@
+import { StudyProfile } from "../types";
+import { isRecord } from "../utils/guards";
+
+// Study profiles for a shared device. The first profile keeps the original
+// database and localStorage keys, so data from before profiles existed stays
+// where it is; every other profile gets its own database and suffixed keys.
+// A tab picks its profile once at load and switching reloads the page, so
+// nothing from one profile stays in memory for the next.
+
+const PROFILES_KEY = 'focusflow_profiles';
+const UNLOCKED_KEY = 'focusflow_unlocked'; // sessionStorage: profile unlocked in this tab
+const BASE_DATABASE_NAME = 'focusflow';
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+export interface ProfileRegistry {
+  profiles: StudyProfile[];
+  activeId: string;
+}
+
+const defaultRegistry = (): ProfileRegistry => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'My Profile', createdAt: Date.now() }],
+  activeId: DEFAULT_PROFILE_ID,
+});
+
+const isProfile = (value: unknown): value is StudyProfile =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.createdAt === 'number';
+
+export const loadProfiles = (): ProfileRegistry => {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (!saved) return defaultRegistry();
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    const profiles = isRecord(parsed) && Array.isArray(parsed.profiles) ? parsed.profiles.filter(isProfile) : [];
+    if (profiles.length === 0) return defaultRegistry();
+    const active = isRecord(parsed) ? profiles.find(p => p.id === parsed.activeId) : undefined;
+    return { profiles, activeId: (active ?? profiles[0]).id };
+  } catch (e) {
+    console.error("Failed to parse profiles", e);
+    return defaultRegistry();
+  }
+};
+
+const saveProfiles = (registry: ProfileRegistry) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(registry));
+};
+
+// Fixed for the lifetime of the page, even if another tab switches profile
+let pageProfileId: string | null = null;
+
+export const getActiveProfileId = () => {
+  if (pageProfileId === null) pageProfileId = loadProfiles().activeId;
+  return pageProfileId;
+};
+
+export const getActiveProfile = (): StudyProfile => {
+  const { profiles } = loadProfiles();
+  return profiles.find(p => p.id === getActiveProfileId()) ?? profiles[0];
+};
+
+// Per-profile name for a localStorage key
+export const profileStorageKey = (baseKey: string, profileId: string = getActiveProfileId()) =>
+  profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}__${profileId}`;
+
+export const profileDatabaseName = (profileId: string = getActiveProfileId()) =>
+  profileId === DEFAULT_PROFILE_ID ? BASE_DATABASE_NAME : `${BASE_DATABASE_NAME}__${profileId}`;
+
+const hashPin = async (pin: string, salt: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const updateProfile = (id: string, update: (profile: StudyProfile) => StudyProfile) => {
+  const registry = loadProfiles();
+  saveProfiles({ ...registry, profiles: registry.profiles.map(p => p.id === id ? update(p) : p) });
+};
+
+export const createProfile = (name: string): StudyProfile => {
+  const registry = loadProfiles();
+  const profile: StudyProfile = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now() };
+  saveProfiles({ ...registry, profiles: [...registry.profiles, profile] });
+  return profile;
+};
+
+export const renameProfile = (id: string, name: string) => {
+  updateProfile(id, p => ({ ...p, name: name.trim() }));
+};
+
+// `null` removes the lock
+export const setProfilePin = async (id: string, pin: string | null) => {
+  if (pin === null) {
+    updateProfile(id, ({ pinHash, pinSalt, ...rest }) => rest);
+    return;
+  }
+  const pinSalt = crypto.randomUUID();
+  const pinHash = await hashPin(pin, pinSalt);
+  updateProfile(id, p => ({ ...p, pinHash, pinSalt }));
+};
+
+export const verifyProfilePin = async (profile: StudyProfile, pin: string) =>
+  !profile.pinHash || (await hashPin(pin, profile.pinSalt || '')) === profile.pinHash;
+
+// An unlock lasts until the tab is closed or the profile is locked again
+export const isProfileUnlocked = (profile: StudyProfile) =>
+  !profile.pinHash || sessionStorage.getItem(UNLOCKED_KEY) === profile.id;
+
+export const markProfileUnlocked = (id: string) => {
+  sessionStorage.setItem(UNLOCKED_KEY, id);
+};
+
+export const lockProfile = () => {
+  sessionStorage.removeItem(UNLOCKED_KEY);
+  window.location.reload();
+};
+
+export const switchProfile = (id: string) => {
+  saveProfiles({ ...loadProfiles(), activeId: id });
+  sessionStorage.removeItem(UNLOCKED_KEY);
+  window.location.reload();
+};
+
+// Removes a profile that is not in use: its database and all of its keys
+export const deleteProfile = async (id: string) => {
+  if (id === getActiveProfileId()) throw new Error("The profile in use cannot be deleted.");
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(profileDatabaseName(id));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("The profile is open in another tab. Close it and try again."));
+  });
+
+  Object.keys(localStorage)
+    .filter(key => key !== PROFILES_KEY && key.startsWith('focusflow_') && (id === DEFAULT_PROFILE_ID
+      ? !key.includes('__')
+      : key.endsWith(`__${id}`)))
+    .forEach(key => localStorage.removeItem(key));
+
+  const registry = loadProfiles();
+  saveProfiles({ ...registry, profiles: registry.profiles.filter(p => p.id !== id) });
+};
+
+// Short form of the name for export file names
+export const profileFileSlug = (profile: StudyProfile) =>
+  profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'profile';
@@ -0,0 +1,81 @@
+import { StudySession } from "../types";
+import { startOfLocalDay, addLocalDays, diffLocalDays } from "../utils/date";
+
+// Days between the first read and each following revision (R1, R2, ...).
+// Once the last interval is reached the topic keeps cycling at that gap.
+export const REVISION_INTERVALS_DAYS = [1, 3, 7, 21, 45];
+
+export type RevisionStatus = 'NOT_STARTED' | 'SCHEDULED' | 'DUE' | 'OVERDUE';
+
+export interface TopicRevision {
+  topic: string;
+  status: RevisionStatus;
+  revisionsDone: number; // 0 after the first read, 1 after R1, ...
+  lastStudied: number | null;
+  nextDue: number | null; // local midnight of the day the next revision is due
+  daysOverdue: number;
+}
+
+const normalizeTopic = (value: string) => value.trim().toLowerCase();
+
+export const getRevisionLabel = (revisionsDone: number) => `R${revisionsDone + 1}`;
+
+// The schedule is derived from logged sessions rather than stored, so editing,
+// backfilling or deleting a session in History re-plans the topic automatically.
+// A session advances the schedule only when it falls on or after the due day;
+// extra study before that is counted as study time but not as a revision.
+export const getTopicRevision = (
+  topic: string,
+  sessions: StudySession[],
+  now: number = Date.now()
+): TopicRevision => {
+  const key = normalizeTopic(topic);
+  const topicSessions = sessions
+    .filter(s => normalizeTopic(s.subject) === key)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  if (topicSessions.length === 0) {
+    return { topic, status: 'NOT_STARTED', revisionsDone: 0, lastStudied: null, nextDue: null, daysOverdue: 0 };
+  }
+
+  const intervalFor = (revisionsDone: number) =>
+    REVISION_INTERVALS_DAYS[Math.min(revisionsDone, REVISION_INTERVALS_DAYS.length - 1)];
+
+  let revisionsDone = 0;
+  let nextDue = addLocalDays(startOfLocalDay(topicSessions[0].startTime), intervalFor(0));
+
+  for (const session of topicSessions.slice(1)) {
+    const day = startOfLocalDay(session.startTime);
+    if (day >= nextDue) {
+      revisionsDone++;
+      nextDue = addLocalDays(day, intervalFor(revisionsDone));
+    }
+  }
+
+  const daysUntilDue = diffLocalDays(now, nextDue);
+  const status: RevisionStatus = daysUntilDue > 0 ? 'SCHEDULED' : daysUntilDue === 0 ? 'DUE' : 'OVERDUE';
+
+  return {
+    topic,
+    status,
+    revisionsDone,
+    lastStudied: topicSessions[topicSessions.length - 1].startTime,
+    nextDue,
+    daysOverdue: Math.max(0, -daysUntilDue),
+  };
+};
+
+export const getRevisionSchedule = (
+  topics: string[],
+  sessions: StudySession[],
+  now: number = Date.now()
+): TopicRevision[] => {
+  return topics.map(topic => getTopicRevision(topic, sessions, now));
+};
+
+// Topics due today or overdue, most overdue first
+export const getDueRevisions = (schedule: TopicRevision[]) => {
+  return schedule
+    .filter(r => r.status === 'DUE' || r.status === 'OVERDUE')
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+};
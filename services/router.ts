@@ -0,0 +1,75 @@
+import { ViewState } from "../types";
+
+// Hash routes such as #/history?subject=Pharmacology&from=2026-09-01. A hash
+// keeps deep links working offline and on static hosting, where only
+// index.html is ever served.
+
+const VIEW_PATHS: Record<ViewState, string> = {
+  [ViewState.DASHBOARD]: 'dashboard',
+  [ViewState.TIMER]: 'timer',
+  [ViewState.HISTORY]: 'history',
+  [ViewState.INSIGHTS]: 'insights',
+  [ViewState.SETTINGS]: 'settings',
+  [ViewState.MCQ]: 'mcq',
+  [ViewState.SYLLABUS]: 'syllabus',
+  [ViewState.MOCK_TESTS]: 'grand-tests',
+};
+
+// 'ALL' and '' mean no filter, as in the History view's own state
+export interface HistoryFilters {
+  subject: string;
+  concentration: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = { subject: 'ALL', concentration: 'ALL', startDate: '', endDate: '' };
+
+export interface AppRoute {
+  view: ViewState;
+  timerSubject?: string; // preselected subject for a new Timer session
+  historyFilters?: HistoryFilters; // only on History routes
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const parseRoute = (hash: string): AppRoute => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const view = (Object.keys(VIEW_PATHS) as ViewState[]).find(v => VIEW_PATHS[v] === path.toLowerCase()) ?? ViewState.DASHBOARD;
+  const params = new URLSearchParams(query);
+
+  if (view === ViewState.TIMER) {
+    return { view, timerSubject: params.get('subject')?.trim() || undefined };
+  }
+  if (view === ViewState.HISTORY) {
+    const focus = params.get('focus') || '';
+    const from = params.get('from') || '';
+    const to = params.get('to') || '';
+    return {
+      view,
+      historyFilters: {
+        subject: params.get('subject')?.trim() || 'ALL',
+        concentration: /^[1-5]$/.test(focus) ? focus : 'ALL',
+        startDate: DATE_PATTERN.test(from) ? from : '',
+        endDate: DATE_PATTERN.test(to) ? to : '',
+      },
+    };
+  }
+  return { view };
+};
+
+export const formatRoute = (route: AppRoute): string => {
+  const params = new URLSearchParams();
+  if (route.view === ViewState.TIMER && route.timerSubject) {
+    params.set('subject', route.timerSubject);
+  }
+  if (route.view === ViewState.HISTORY && route.historyFilters) {
+    const { subject, concentration, startDate, endDate } = route.historyFilters;
+    if (subject !== 'ALL') params.set('subject', subject);
+    if (concentration !== 'ALL') params.set('focus', concentration);
+    if (startDate) params.set('from', startDate);
+    if (endDate) params.set('to', endDate);
+  }
+  const query = params.toString();
+  return `#/${VIEW_PATHS[route.view]}${query ? `?${query}` : ''}`;
+};
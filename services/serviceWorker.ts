@@ -0,0 +1,36 @@
+// Registers sw.js and reports when a new version is waiting. Calling the
+// returned `apply` activates it; the page reloads once it has taken control.
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+export const registerServiceWorker = (onUpdateReady: (apply: () => void) => void) => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  // The first install also changes the controller; only an accepted update reloads
+  let updateAccepted = false;
+  const notify = (worker: ServiceWorker) => onUpdateReady(() => {
+    updateAccepted = true;
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!updateAccepted) return;
+    updateAccepted = false;
+    window.location.reload();
+  });
+
+  navigator.serviceWorker.register('./sw.js')
+    .then(registration => {
+      // An installed app can stay open for days; look for new versions hourly
+      setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+      // Only an existing controller means this is an update rather than the first install
+      if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) notify(installing);
+        });
+      });
+    })
+    .catch(error => console.error("Service worker registration failed", error));
+};
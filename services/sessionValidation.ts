@@ -0,0 +1,56 @@
+import { StudySession } from "../types";
+
+const MAX_SESSION_HOURS = 16;
+// Small allowance for clock drift between devices when backfilling "just now"
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+export interface SessionTimeDraft {
+  subject: string;
+  startTime: number;
+  endTime: number;
+}
+
+// Validates a manually entered or edited session against the rest of the history.
+// `ignoreId` excludes the session being edited from the overlap check.
+export const validateSessionDraft = (
+  draft: SessionTimeDraft,
+  sessions: StudySession[],
+  ignoreId?: string,
+  now: number = Date.now()
+): string[] => {
+  const errors: string[] = [];
+
+  if (!draft.subject.trim()) {
+    errors.push("Subject is required.");
+  }
+
+  if (!Number.isFinite(draft.startTime) || !Number.isFinite(draft.endTime)) {
+    errors.push("Start and end time are both required.");
+    return errors;
+  }
+
+  if (draft.endTime <= draft.startTime) {
+    errors.push("End time must be after the start time.");
+  } else if (draft.endTime - draft.startTime > MAX_SESSION_HOURS * 3600 * 1000) {
+    errors.push(`A single session cannot be longer than ${MAX_SESSION_HOURS} hours.`);
+  }
+
+  if (draft.endTime > now + FUTURE_TOLERANCE_MS) {
+    errors.push("Sessions cannot end in the future.");
+  }
+
+  const overlapping = sessions.find(s =>
+    s.id !== ignoreId && draft.startTime < s.endTime && s.startTime < draft.endTime
+  );
+  if (overlapping) {
+    const when = `${new Date(overlapping.startTime).toLocaleDateString()} ${new Date(overlapping.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
+    errors.push(`Overlaps with "${overlapping.subject}" logged at ${when}.`);
+  }
+
+  return errors;
+};
+
+// Duration in seconds derived from the time range, so the two never disagree
+export const getRangeDuration = (startTime: number, endTime: number) => {
+  return Math.max(0, Math.round((endTime - startTime) / 1000));
+};
@@ -0,0 +1,282 @@
+import { CoachConversation, CoachReport, ExamSettings, GoalSettings, MCQLog, MockTest, OutboxEntry, StudySession } from "../types";
+import { DEFAULT_PROFILE_ID, getActiveProfileId, profileDatabaseName } from "./profiles";
+import { isRecord } from "../utils/guards";
+
+// IndexedDB persistence. Two kinds of versioning are kept apart:
+// - DB_VERSION is the IndexedDB schema (object stores), upgraded in onupgradeneeded.
+// - DATA_MIGRATIONS move stored records forward and are tracked in the meta store,
+//   so a failed migration can be retried on the next load without losing data.
+// Each study profile has its own database (see profiles.ts).
+
+const DB_VERSION = 5;
+
+const META_STORE = 'meta';
+const DATA_VERSION_KEY = 'dataVersion';
+
+export type CollectionName = 'sessions' | 'mcqLogs' | 'mockTests' | 'coachReports' | 'conversations' | 'outbox';
+
+interface CollectionRecords {
+  sessions: StudySession;
+  mcqLogs: MCQLog;
+  mockTests: MockTest;
+  coachReports: CoachReport;
+  conversations: CoachConversation;
+  outbox: OutboxEntry;
+}
+
+export type MetaKey = 'studyPlan' | 'goals' | 'exams';
+
+export interface AppData {
+  sessions: StudySession[];
+  mcqLogs: MCQLog[];
+  mockTests: MockTest[];
+  coachReports: CoachReport[];
+  conversations: CoachConversation[]; // coach chats; device only, not part of backups
+  outbox: OutboxEntry[]; // queued AI requests; device only
+  studyPlan: string[] | null; // null when the user never saved a plan
+  goals: GoalSettings | null; // null until goals are first saved
+  exams: ExamSettings | null;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const LEGACY_KEYS = {
+  sessions: 'focusflow_sessions',
+  studyPlan: 'focusflow_plan',
+  mcqLogs: 'focusflow_mcqs',
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError("This browser does not support offline storage (IndexedDB)."));
+      return;
+    }
+
+    const request = indexedDB.open(profileDatabaseName(), DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // Each case falls through so any older schema is walked up step by step
+      switch (event.oldVersion) {
+        case 0:
+          db.createObjectStore('sessions', { keyPath: 'id' });
+          db.createObjectStore('mcqLogs', { keyPath: 'id' });
+          db.createObjectStore(META_STORE);
+        case 1:
+          db.createObjectStore('mockTests', { keyPath: 'id' });
+        case 2:
+          db.createObjectStore('coachReports', { keyPath: 'id' });
+        case 3:
+          db.createObjectStore('conversations', { keyPath: 'id' });
+        case 4:
+          db.createObjectStore('outbox', { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so its upgrade is not blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(new StorageError("Could not open the local database.", request.error));
+    request.onblocked = () => reject(new StorageError("The local database is busy in another tab. Close other tabs and reload."));
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Data migrations
+
+interface DataMigration {
+  version: number;
+  description: string;
+  run: (db: IDBDatabase) => Promise<void>;
+}
+
+// Parses one legacy localStorage key. Throws instead of returning an empty
+// value so a corrupt key blocks the migration rather than being dropped.
+const readLegacyArray = (key: string): unknown[] | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    throw new StorageError(`Saved data in "${key}" is corrupted and could not be read.`, e);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StorageError(`Saved data in "${key}" has an unexpected format.`);
+  }
+  return parsed;
+};
+
+const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Import sessions, MCQ logs and study plan from localStorage',
+    run: async (db) => {
+      // Data from before profiles existed belongs to the original profile
+      if (getActiveProfileId() !== DEFAULT_PROFILE_ID) return;
+
+      const sessions = readLegacyArray(LEGACY_KEYS.sessions);
+      const mcqLogs = readLegacyArray(LEGACY_KEYS.mcqLogs);
+      const studyPlan = readLegacyArray(LEGACY_KEYS.studyPlan);
+
+      const tx = db.transaction(['sessions', 'mcqLogs', META_STORE], 'readwrite');
+      sessions?.filter(s => isRecord(s) && typeof s.id === 'string').forEach(s => tx.objectStore('sessions').put(s));
+      mcqLogs?.filter(l => isRecord(l) && typeof l.id === 'string').forEach(l => tx.objectStore('mcqLogs').put(l));
+      if (studyPlan) tx.objectStore(META_STORE).put(studyPlan.filter(p => typeof p === 'string'), 'studyPlan');
+      await transactionDone(tx);
+
+      // Only drop the old keys once the copy is committed
+      Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    },
+  },
+];
+
+export const CURRENT_DATA_VERSION = DATA_MIGRATIONS[DATA_MIGRATIONS.length - 1].version;
+
+const runMigrations = async (db: IDBDatabase) => {
+  const tx = db.transaction(META_STORE, 'readonly');
+  const stored = await requestToPromise(tx.objectStore(META_STORE).get(DATA_VERSION_KEY));
+  const current = typeof stored === 'number' ? stored : 0;
+
+  if (current > CURRENT_DATA_VERSION) {
+    throw new StorageError("Your saved data was written by a newer version of the app. Please reload to update.");
+  }
+
+  for (const migration of DATA_MIGRATIONS.filter(m => m.version > current)) {
+    try {
+      await migration.run(db);
+    } catch (e) {
+      throw e instanceof StorageError ? e : new StorageError(`Data migration failed: ${migration.description}.`, e);
+    }
+    const versionTx = db.transaction(META_STORE, 'readwrite');
+    versionTx.objectStore(META_STORE).put(migration.version, DATA_VERSION_KEY);
+    await transactionDone(versionTx);
+  }
+};
+
+// Loading
+
+// Loads everything the app needs. Any failure is thrown as a StorageError so
+// callers can refuse to save over data they were unable to read.
+export const loadAppData = async (): Promise<AppData> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch (e) {
+    throw e instanceof StorageError ? e : new StorageError("Could not open the local database.", e);
+  }
+
+  await runMigrations(db);
+
+  try {
+    const tx = db.transaction(['sessions', 'mcqLogs', 'mockTests', 'coachReports', 'conversations', 'outbox', META_STORE], 'readonly');
+    const [sessions, mcqLogs, mockTests, coachReports, conversations, outbox, studyPlan, goals, exams] = await Promise.all([
+      requestToPromise<unknown[]>(tx.objectStore('sessions').getAll()),
+      requestToPromise<unknown[]>(tx.objectStore('mcqLogs').getAll()),
+      requestToPromise<unknown[]>(tx.objectStore('mockTests').getAll()),
+      requestToPromise<unknown[]>(tx.objectStore('coachReports').getAll()),
+      requestToPromise<unknown[]>(tx.objectStore('conversations').getAll()),
+      requestToPromise<unknown[]>(tx.objectStore('outbox').getAll()),
+      requestToPromise(tx.objectStore(META_STORE).get('studyPlan')),
+      requestToPromise(tx.objectStore(META_STORE).get('goals')),
+      requestToPromise(tx.objectStore(META_STORE).get('exams')),
+    ]);
+    // Unreadable records are left out of memory but stay in the database:
+    // saves only touch ids that were loaded, so they are never overwritten.
+    const validSessions = sessions.filter((s): s is StudySession =>
+      isRecord(s) && typeof s.id === 'string' && typeof s.startTime === 'number' && typeof s.duration === 'number'
+    );
+    const validLogs = mcqLogs.filter((l): l is MCQLog =>
+      isRecord(l) && typeof l.id === 'string' && typeof l.timestamp === 'number' && typeof l.count === 'number'
+    );
+    const validTests = mockTests.filter((t): t is MockTest =>
+      isRecord(t) && typeof t.id === 'string' && typeof t.date === 'number' && Array.isArray(t.subjectMarks)
+    );
+    const validReports = coachReports.filter((r): r is CoachReport =>
+      isRecord(r) && typeof r.id === 'string' && typeof r.createdAt === 'number' && Array.isArray(r.actionItems)
+    );
+    const validConversations = conversations.filter((c): c is CoachConversation =>
+      isRecord(c) && typeof c.id === 'string' && typeof c.updatedAt === 'number' && Array.isArray(c.messages)
+    );
+    const validOutbox = outbox.filter((e): e is OutboxEntry =>
+      isRecord(e) && typeof e.id === 'string' && (e.kind === 'COACH_REPORT' || (e.kind === 'MCQ_PROOF' && e.image instanceof Blob))
+    );
+    const skipped = sessions.length - validSessions.length + mcqLogs.length - validLogs.length
+      + mockTests.length - validTests.length + coachReports.length - validReports.length
+      + conversations.length - validConversations.length + outbox.length - validOutbox.length;
+    if (skipped > 0) console.error(`Skipped ${skipped} unreadable records`);
+
+    return {
+      sessions: validSessions.sort((a, b) => b.startTime - a.startTime),
+      mcqLogs: validLogs.sort((a, b) => b.timestamp - a.timestamp),
+      mockTests: validTests.sort((a, b) => b.date - a.date),
+      coachReports: validReports.sort((a, b) => b.createdAt - a.createdAt),
+      conversations: validConversations.sort((a, b) => b.updatedAt - a.updatedAt),
+      outbox: validOutbox.sort((a, b) => a.createdAt - b.createdAt),
+      studyPlan: Array.isArray(studyPlan) ? studyPlan : null,
+      goals: goals && typeof goals === 'object' ? goals : null,
+      exams: exams && typeof exams === 'object' ? exams : null,
+    };
+  } catch (e) {
+    throw new StorageError("Saved data could not be read.", e);
+  }
+};
+
+// Saving
+
+// Writes only the records that changed between two in-memory snapshots.
+// React state keeps unchanged records by reference, so identity is enough.
+export const syncCollection = async <K extends CollectionName>(
+  name: K,
+  previous: CollectionRecords[K][],
+  next: CollectionRecords[K][]
+) => {
+  const previousById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  const changed = next.filter(r => previousById.get(r.id) !== r);
+  const removed = previous.filter(r => !nextIds.has(r.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  changed.forEach(r => store.put(r));
+  removed.forEach(r => store.delete(r.id));
+  await transactionDone(tx);
+};
+
+export const saveMeta = async (key: MetaKey, value: unknown) => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
@@ -0,0 +1,254 @@
+import { MCQLog, StudySession } from "../types";
+import { SyllabusIndex, getSessionSubjectGroup } from "./syllabus";
+import { getAccuracy } from "./mcqStats";
+import { DistractionStats, PAUSE_REASON_LABELS, getDistractionStats } from "./distractions";
+import { diffLocalDays } from "../utils/date";
+
+// Local analytics over all sessions and MCQ logs. Findings are plain facts
+// computed on this device: they are shown in Insights without any API call
+// and handed to the AI provider as context when one is available.
+
+export const NEGLECT_DAYS = 10; // no session for this long marks a subject as neglected
+const MIN_SESSIONS_PER_HOUR = 3; // hours of the day with fewer sessions are not ranked
+const TREND_WINDOW = 5; // latest sessions compared against the ones before them
+const FOCUS_DROP = 0.5; // average concentration points that count as falling focus
+const MIN_TRACKED_SESSIONS = 3; // Timer sessions needed per group before distraction rates are compared
+const SWITCH_GAP = 1; // tab switches per hour that make two groups meaningfully different
+const HIGH_SWITCH_RATE = 6; // tab switches per focused hour that count as frequent
+
+export type FindingTone = 'POSITIVE' | 'WARNING' | 'INFO';
+
+export interface AnalyticsFinding {
+  id: string;
+  tone: FindingTone;
+  title: string;
+  detail: string;
+}
+
+export interface HourStat {
+  hour: number; // 0-23, local start hour of the session
+  sessions: number;
+  minutes: number;
+  avgConcentration: number | null;
+}
+
+export interface SubjectStat {
+  subject: string;
+  sessions: number;
+  totalHours: number;
+  avgSessionMinutes: number;
+  avgConcentration: number;
+  focusChange: number | null; // latest sessions minus earlier ones; null with too few sessions
+  daysSinceLast: number;
+  mcqAttempted: number; // scored MCQs only
+  mcqAccuracy: number | null;
+}
+
+export interface StudyAnalytics {
+  hours: HourStat[];
+  subjects: SubjectStat[]; // most studied first
+  findings: AnalyticsFinding[];
+  distractions: DistractionStats; // Timer sessions only
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+};
+
+// Pearson correlation; null when there is no spread to compare
+const correlation = (xs: number[], ys: number[]) => {
+  const mx = average(xs);
+  const my = average(ys);
+  const cov = xs.reduce((acc, x, i) => acc + (x - mx) * (ys[i] - my), 0);
+  const sx = Math.sqrt(xs.reduce((acc, x) => acc + (x - mx) ** 2, 0));
+  const sy = Math.sqrt(ys.reduce((acc, y) => acc + (y - my) ** 2, 0));
+  return sx === 0 || sy === 0 ? null : cov / (sx * sy);
+};
+
+export const getHourStats = (sessions: StudySession[]): HourStat[] =>
+  Array.from({ length: 24 }, (_, hour) => {
+    const inHour = sessions.filter(s => new Date(s.startTime).getHours() === hour);
+    return {
+      hour,
+      sessions: inHour.length,
+      minutes: Math.round(inHour.reduce((acc, s) => acc + s.duration, 0) / 60),
+      avgConcentration: inHour.length ? round1(average(inHour.map(s => s.concentration))) : null,
+    };
+  });
+
+export const getSubjectStats = (
+  sessions: StudySession[],
+  mcqLogs: MCQLog[],
+  index: SyllabusIndex,
+  now: number = Date.now()
+): SubjectStat[] => {
+  const bySubject = new Map<string, StudySession[]>();
+  sessions.forEach(s => {
+    const group = getSessionSubjectGroup(index, s);
+    bySubject.set(group, [...(bySubject.get(group) || []), s]);
+  });
+
+  return Array.from(bySubject.entries())
+    .map(([subject, list]) => {
+      const ordered = [...list].sort((a, b) => a.startTime - b.startTime);
+      const latest = ordered.slice(-TREND_WINDOW);
+      const earlier = ordered.slice(0, -TREND_WINDOW);
+      const totalSeconds = ordered.reduce((acc, s) => acc + s.duration, 0);
+      const accuracy = getAccuracy(mcqLogs.filter(l => l.subject?.toLowerCase() === subject.toLowerCase()));
+      return {
+        subject,
+        sessions: ordered.length,
+        totalHours: round1(totalSeconds / 3600),
+        avgSessionMinutes: Math.round(totalSeconds / 60 / ordered.length),
+        avgConcentration: round1(average(ordered.map(s => s.concentration))),
+        focusChange: earlier.length > 0
+          ? round1(average(latest.map(s => s.concentration)) - average(earlier.map(s => s.concentration)))
+          : null,
+        daysSinceLast: diffLocalDays(ordered[ordered.length - 1].startTime, now),
+        mcqAttempted: accuracy.attempted,
+        mcqAccuracy: accuracy.accuracy,
+      };
+    })
+    .sort((a, b) => b.totalHours - a.totalHours);
+};
+
+export const computeStudyAnalytics = (
+  sessions: StudySession[],
+  mcqLogs: MCQLog[],
+  index: SyllabusIndex,
+  now: number = Date.now()
+): StudyAnalytics => {
+  const hours = getHourStats(sessions);
+  const subjects = getSubjectStats(sessions, mcqLogs, index, now);
+  const findings: AnalyticsFinding[] = [];
+
+  // Best and worst start hours for concentration
+  const ranked = hours
+    .filter(h => h.sessions >= MIN_SESSIONS_PER_HOUR)
+    .sort((a, b) => b.avgConcentration! - a.avgConcentration! || b.sessions - a.sessions);
+  if (ranked.length >= 2 && ranked[0].avgConcentration! > ranked[ranked.length - 1].avgConcentration!) {
+    const best = ranked[0];
+    const worst = ranked[ranked.length - 1];
+    findings.push({
+      id: 'best-hour',
+      tone: 'POSITIVE',
+      title: `Sharpest at ${formatHour(best.hour)}`,
+      detail: `Sessions started at ${formatHour(best.hour)} average ${best.avgConcentration}/5 focus over ${best.sessions} sessions.`,
+    });
+    findings.push({
+      id: 'worst-hour',
+      tone: 'WARNING',
+      title: `Weakest at ${formatHour(worst.hour)}`,
+      detail: `Sessions started at ${formatHour(worst.hour)} average only ${worst.avgConcentration}/5. Keep that slot for MCQs or light revision.`,
+    });
+  }
+
+  // Subjects whose latest sessions are clearly less focused than before
+  subjects
+    .filter(s => s.focusChange !== null && s.focusChange <= -FOCUS_DROP)
+    .forEach(s => findings.push({
+      id: `falling-${s.subject}`,
+      tone: 'WARNING',
+      title: `Falling focus in ${s.subject}`,
+      detail: `The last ${TREND_WINDOW} sessions average ${Math.abs(s.focusChange!)} points lower than earlier ones (overall ${s.avgConcentration}/5).`,
+    }));
+
+  // Studied before, but not recently
+  subjects
+    .filter(s => s.daysSinceLast >= NEGLECT_DAYS)
+    .sort((a, b) => b.daysSinceLast - a.daysSinceLast)
+    .forEach(s => findings.push({
+      id: `neglected-${s.subject}`,
+      tone: 'WARNING',
+      title: `${s.subject} untouched for ${s.daysSinceLast} days`,
+      detail: `Last studied ${s.daysSinceLast} days ago after ${s.totalHours}h in total. A quick revision now keeps it from fading.`,
+    }));
+
+  // Session length per subject, where it stands out
+  const longest = [...subjects].filter(s => s.sessions >= 3).sort((a, b) => b.avgSessionMinutes - a.avgSessionMinutes);
+  if (longest.length >= 2 && longest[0].avgSessionMinutes >= 2 * longest[longest.length - 1].avgSessionMinutes) {
+    const short = longest[longest.length - 1];
+    findings.push({
+      id: 'session-length',
+      tone: 'INFO',
+      title: 'Uneven session lengths',
+      detail: `${longest[0].subject} sessions average ${longest[0].avgSessionMinutes} min, ${short.subject} only ${short.avgSessionMinutes} min.`,
+    });
+  }
+
+  // MCQ accuracy against study time, across subjects with both
+  const scored = subjects.filter(s => s.mcqAccuracy !== null && s.mcqAttempted >= 20);
+  if (scored.length >= 3) {
+    const r = correlation(scored.map(s => s.totalHours), scored.map(s => s.mcqAccuracy!));
+    if (r !== null && Math.abs(r) >= 0.4) {
+      findings.push({
+        id: 'accuracy-vs-time',
+        tone: r > 0 ? 'POSITIVE' : 'INFO',
+        title: r > 0 ? 'Study time is paying off in MCQs' : 'More hours are not raising accuracy',
+        detail: r > 0
+          ? `Subjects you studied longer score higher in MCQs (correlation ${r.toFixed(2)} across ${scored.length} subjects).`
+          : `Subjects with more study hours score lower in MCQs (correlation ${r.toFixed(2)}). Try more active recall on those subjects.`,
+      });
+    }
+    const medianHours = [...scored].sort((a, b) => a.totalHours - b.totalHours)[Math.floor(scored.length / 2)].totalHours;
+    scored
+      .filter(s => s.totalHours >= medianHours && s.mcqAccuracy! < 60)
+      .forEach(s => findings.push({
+        id: `low-yield-${s.subject}`,
+        tone: 'WARNING',
+        title: `${s.subject}: hours not showing in accuracy`,
+        detail: `${s.totalHours}h studied but ${s.mcqAccuracy}% MCQ accuracy over ${s.mcqAttempted} questions.`,
+      }));
+  }
+
+  // Distractions next to the self-rated concentration
+  const distractions = getDistractionStats(sessions);
+  const low = getDistractionStats(sessions.filter(s => s.concentration <= 2));
+  const high = getDistractionStats(sessions.filter(s => s.concentration >= 4));
+  if (low.trackedSessions >= MIN_TRACKED_SESSIONS && high.trackedSessions >= MIN_TRACKED_SESSIONS
+    && low.switchesPerHour! - high.switchesPerHour! >= SWITCH_GAP) {
+    findings.push({
+      id: 'switches-vs-focus',
+      tone: 'INFO',
+      title: 'Tab switching comes with low focus',
+      detail: `Sessions you rated 1-2 average ${low.switchesPerHour} tab switches per hour, those rated 4-5 only ${high.switchesPerHour}. Close other tabs before you start.`,
+    });
+  }
+  if (distractions.focusedHours >= 2 && distractions.switchesPerHour! >= HIGH_SWITCH_RATE) {
+    findings.push({
+      id: 'frequent-switching',
+      tone: 'WARNING',
+      title: 'Frequent tab switching',
+      detail: `You leave the app ${distractions.switchesPerHour} times per focused hour on average (${distractions.tabSwitches} switches in ${distractions.focusedHours}h of timed study).`,
+    });
+  }
+  const topReason = distractions.reasons[0];
+  if (topReason && (topReason.reason === 'PHONE' || topReason.reason === 'INTERRUPTION')
+    && distractions.pauseCount >= 5 && topReason.minutes * 2 >= distractions.pausedMinutes) {
+    findings.push({
+      id: 'pause-reason',
+      tone: 'WARNING',
+      title: `${PAUSE_REASON_LABELS[topReason.reason]} is your biggest time sink`,
+      detail: `${topReason.count} of ${distractions.pauseCount} pauses, ${topReason.minutes} of ${distractions.pausedMinutes} paused minutes.`,
+    });
+  }
+  const idle = distractions.reasons.find(r => r.reason === 'IDLE');
+  if (idle && idle.sessions >= 3) {
+    findings.push({
+      id: 'idle-trims',
+      tone: 'INFO',
+      title: 'Timer left running',
+      detail: `${idle.sessions} sessions had idle time trimmed (${idle.minutes} min over ${idle.count} pauses). Pause the timer when you step away.`,
+    });
+  }
+
+  return { hours, subjects, findings, distractions };
+};
+
+// One line per finding, for the AI prompt
+export const formatFindingsForPrompt = (analytics: StudyAnalytics) =>
+  analytics.findings.map(f => `${f.title}: ${f.detail}`);
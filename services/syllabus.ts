@@ -0,0 +1,156 @@
+import { StudySession, SyllabusNode, SyllabusNodeProgress } from "../types";
+import { DEFAULT_SYLLABUS_OUTLINE } from "../constants";
+import { getLocalDateString } from "../utils/date";
+
+// Separator used in Study Plan lines such as "Anatomy - Upper Limb"
+export const SYLLABUS_LABEL_SEPARATOR = ' - ';
+
+export interface SyllabusEntry {
+  node: SyllabusNode;
+  path: SyllabusNode[]; // root subject first, ending with the node itself
+  label: string; // e.g. "Anatomy - Upper Limb - Brachial Plexus"
+}
+
+const slugify = (value: string) => value
+  .toLowerCase()
+  .replace(/&/g, 'and')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+const normalizeLabel = (value: string) => value
+  .split(/\s+-\s+/)
+  .map(part => part.trim().toLowerCase())
+  .join(SYLLABUS_LABEL_SEPARATOR);
+
+export const buildSyllabus = (outline: Record<string, Record<string, string[]>>): SyllabusNode[] => {
+  return Object.entries(outline).map(([subject, chapters]) => {
+    const subjectId = slugify(subject);
+    return {
+      id: subjectId,
+      title: subject,
+      kind: 'SUBJECT',
+      children: Object.entries(chapters).map(([chapter, topics]) => {
+        const chapterId = `${subjectId}/${slugify(chapter)}`;
+        return {
+          id: chapterId,
+          title: chapter,
+          kind: 'CHAPTER',
+          children: topics.map(topic => ({
+            id: `${chapterId}/${slugify(topic)}`,
+            title: topic,
+            kind: 'TOPIC',
+            children: [],
+          })),
+        };
+      }),
+    };
+  });
+};
+
+export const DEFAULT_SYLLABUS: SyllabusNode[] = buildSyllabus(DEFAULT_SYLLABUS_OUTLINE);
+
+export const flattenSyllabus = (nodes: SyllabusNode[], parents: SyllabusNode[] = []): SyllabusEntry[] => {
+  return nodes.flatMap(node => {
+    const path = [...parents, node];
+    const entry: SyllabusEntry = {
+      node,
+      path,
+      label: path.map(n => n.title).join(SYLLABUS_LABEL_SEPARATOR),
+    };
+    return [entry, ...flattenSyllabus(node.children, path)];
+  });
+};
+
+export interface SyllabusIndex {
+  byId: Map<string, SyllabusEntry>;
+  byLabel: Map<string, SyllabusEntry>;
+  entries: SyllabusEntry[];
+}
+
+export const indexSyllabus = (nodes: SyllabusNode[]): SyllabusIndex => {
+  const entries = flattenSyllabus(nodes);
+  return {
+    entries,
+    byId: new Map(entries.map(e => [e.node.id, e])),
+    byLabel: new Map(entries.map(e => [normalizeLabel(e.label), e])),
+  };
+};
+
+// Matches free text such as "anatomy - upper limb" to the syllabus node with that path
+export const findNodeByLabel = (index: SyllabusIndex, text: string): SyllabusEntry | undefined => {
+  return index.byLabel.get(normalizeLabel(text));
+};
+
+// A stored link wins over the subject text, so renamed nodes stay attached
+export const resolveSessionNode = (index: SyllabusIndex, session: Pick<StudySession, 'subject' | 'syllabusNodeId'>) => {
+  if (session.syllabusNodeId) {
+    const linked = index.byId.get(session.syllabusNodeId);
+    if (linked) return linked;
+  }
+  return findNodeByLabel(index, session.subject);
+};
+
+// Groups a session under its root syllabus subject, or its raw subject when unlinked
+export const getSessionSubjectGroup = (index: SyllabusIndex, session: StudySession) => {
+  return resolveSessionNode(index, session)?.path[0].title ?? session.subject;
+};
+
+// Per-node progress. Time rolls up from topics to chapters and subjects; status
+// comes from the distinct days a node (or anything below it) was studied:
+// the first day is the read, every later day counts as one revision.
+export const getSyllabusProgress = (
+  index: SyllabusIndex,
+  sessions: StudySession[]
+): Map<string, SyllabusNodeProgress> => {
+  const seconds = new Map<string, number>();
+  const counts = new Map<string, number>();
+  const days = new Map<string, Set<string>>();
+
+  sessions.forEach(session => {
+    const entry = resolveSessionNode(index, session);
+    if (!entry) return;
+    const day = getLocalDateString(session.startTime);
+    entry.path.forEach(node => {
+      seconds.set(node.id, (seconds.get(node.id) || 0) + session.duration);
+      counts.set(node.id, (counts.get(node.id) || 0) + 1);
+      if (!days.has(node.id)) days.set(node.id, new Set());
+      days.get(node.id)!.add(day);
+    });
+  });
+
+  const progress = new Map<string, SyllabusNodeProgress>();
+
+  const visit = (node: SyllabusNode): SyllabusNodeProgress => {
+    const childProgress = node.children.map(visit);
+    const studiedDays = days.get(node.id)?.size || 0;
+    const isTopic = node.children.length === 0;
+
+    const result: SyllabusNodeProgress = {
+      status: studiedDays === 0 ? 'NOT_STARTED' : studiedDays === 1 ? 'READ' : 'REVISED',
+      revisions: Math.max(0, studiedDays - 1),
+      totalSeconds: seconds.get(node.id) || 0,
+      sessionsCount: counts.get(node.id) || 0,
+      coveredTopics: isTopic
+        ? (studiedDays > 0 ? 1 : 0)
+        : childProgress.reduce((acc, p) => acc + p.coveredTopics, 0),
+      totalTopics: isTopic ? 1 : childProgress.reduce((acc, p) => acc + p.totalTopics, 0),
+    };
+    progress.set(node.id, result);
+    return result;
+  };
+
+  index.entries.filter(e => e.path.length === 1).forEach(e => visit(e.node));
+  return progress;
+};
+
+export const getCoveragePercent = (progress: Pick<SyllabusNodeProgress, 'coveredTopics' | 'totalTopics'>) => {
+  return progress.totalTopics === 0 ? 0 : Math.round((progress.coveredTopics / progress.totalTopics) * 100);
+};
+
+export const getOverallCoverage = (index: SyllabusIndex, progress: Map<string, SyllabusNodeProgress>) => {
+  const subjects = index.entries.filter(e => e.path.length === 1).map(e => progress.get(e.node.id)!);
+  return getCoveragePercent({
+    coveredTopics: subjects.reduce((acc, p) => acc + p.coveredTopics, 0),
+    totalTopics: subjects.reduce((acc, p) => acc + p.totalTopics, 0),
+  });
+};
@@ -0,0 +1,132 @@
+import { ActiveTimerSnapshot, TimerAlertSettings } from "../types";
+import { getPhaseDurationMs } from "./timerStorage";
+import { profileStorageKey } from "./profiles";
+import { isRecord } from "../utils/guards";
+
+// Alerts for the running timer: notifications and a chime at phase ends and
+// stopwatch targets, plus the idle check. They are driven from App, so they
+// fire whichever view is open.
+
+const TIMER_ALERTS_KEY = 'focusflow_timer_alerts';
+
+export const IDLE_MINUTE_OPTIONS = [0, 15, 30, 45, 60];
+
+export const DEFAULT_TIMER_ALERTS: TimerAlertSettings = { notifications: false, sound: false, idleMinutes: 30 };
+
+// A milestone missed by more than this (tab closed, device asleep) passes silently
+export const MILESTONE_GRACE_MS = 2 * 60 * 1000;
+
+export const normalizeTimerAlerts = (value: unknown): TimerAlertSettings => {
+  if (!isRecord(value)) return DEFAULT_TIMER_ALERTS;
+  const { notifications, sound, idleMinutes } = value;
+  return {
+    notifications: notifications === true,
+    sound: sound === true,
+    idleMinutes: typeof idleMinutes === 'number' && IDLE_MINUTE_OPTIONS.includes(idleMinutes) ? idleMinutes : DEFAULT_TIMER_ALERTS.idleMinutes,
+  };
+};
+
+export const loadTimerAlerts = (): TimerAlertSettings => {
+  const saved = localStorage.getItem(profileStorageKey(TIMER_ALERTS_KEY));
+  if (saved) {
+    try {
+      return normalizeTimerAlerts(JSON.parse(saved));
+    } catch (e) {
+      console.error("Failed to parse timer alert settings", e);
+    }
+  }
+  return DEFAULT_TIMER_ALERTS;
+};
+
+export const saveTimerAlerts = (settings: TimerAlertSettings) => {
+  localStorage.setItem(profileStorageKey(TIMER_ALERTS_KEY), JSON.stringify(settings));
+};
+
+export interface TimerMilestone {
+  key: string; // identifies the milestone so it alerts only once
+  at: number; // timestamp in ms when it is reached
+  title: string;
+  body: string;
+}
+
+// The next point the running timer will alert at, if any
+export const getTimerMilestone = (snapshot: ActiveTimerSnapshot): TimerMilestone | null => {
+  if (snapshot.status !== 'RUNNING' || snapshot.runningSince === null) return null;
+  const subject = snapshot.subject || 'General Study';
+  const interval = snapshot.interval;
+
+  if (interval) {
+    const at = snapshot.runningSince + getPhaseDurationMs(interval.config, interval.phase) - snapshot.accumulatedMs;
+    const key = `${interval.groupId}:${interval.phase}:${interval.phaseStartTime}`;
+    const cycle = interval.completedBlocks.length + 1;
+    if (interval.phase === 'WORK') {
+      const longBreak = cycle % interval.config.cyclesBeforeLongBreak === 0;
+      return { key, at, title: `Cycle ${cycle} done`, body: `${subject} block saved. Time for a ${longBreak ? 'long' : 'short'} break.` };
+    }
+    return { key, at, title: 'Break over', body: `Start cycle ${cycle} of ${subject} when you are ready.` };
+  }
+
+  if (!snapshot.targetMinutes) return null;
+  const targetMs = snapshot.targetMinutes * 60 * 1000;
+  if (snapshot.accumulatedMs >= targetMs) return null;
+  return {
+    key: `${snapshot.startTime}:target`,
+    at: snapshot.runningSince + targetMs - snapshot.accumulatedMs,
+    title: 'Target reached',
+    body: `${snapshot.targetMinutes} minutes of ${subject}. Stop here or keep going.`,
+  };
+};
+
+// Breaks are meant to be away from the screen, so only focus time is watched
+export const isIdleWatched = (snapshot: ActiveTimerSnapshot | null) =>
+  !!snapshot && snapshot.status === 'RUNNING' && (!snapshot.interval || snapshot.interval.phase === 'WORK');
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Mobile browsers only show notifications through the service worker
+export const showTimerNotification = async (title: string, body: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options = { body, tag: 'focusflow-timer', icon: 'https://cdn-icons-png.flaticon.com/512/3063/3063822.png' };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+    new Notification(title, options);
+  } catch (error) {
+    console.error("Timer notification failed", error);
+  }
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture; call this from one
+// (starting the timer, switching sound on) so later chimes can play.
+export const primeAlertSound = () => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    if (audioContext.state === 'suspended') audioContext.resume().catch(() => {});
+  } catch (error) {
+    console.error("Audio is not available", error);
+  }
+};
+
+// Three short rising beeps
+export const playAlertSound = () => {
+  primeAlertSound();
+  if (!audioContext) return;
+  const start = audioContext.currentTime;
+  [880, 988, 1175].forEach((frequency, i) => {
+    const offset = start + i * 0.22;
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, offset);
+    gain.gain.exponentialRampToValueAtTime(0.25, offset + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, offset + 0.18);
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(offset);
+    oscillator.stop(offset + 0.2);
+  });
+};
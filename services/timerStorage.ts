@@ -0,0 +1,331 @@
+import {
+  ActiveTimerSnapshot,
+  ConcentrationLevel,
+  IntervalBlock,
+  IntervalConfig,
+  IntervalPhase,
+  IntervalTimerState,
+  PauseReason,
+  SessionPause,
+  StudySession
+} from "../types";
+import { profileStorageKey } from "./profiles";
+import { isRecord } from "../utils/guards";
+
+const ACTIVE_TIMER_KEY = 'focusflow_active_timer';
+const INTERVAL_CONFIG_KEY = 'focusflow_interval_config';
+
+export const INTERVAL_PRESETS: { label: string; config: IntervalConfig }[] = [
+  { label: '25 / 5', config: { workMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, cyclesBeforeLongBreak: 4 } },
+  { label: '50 / 10', config: { workMinutes: 50, shortBreakMinutes: 10, longBreakMinutes: 30, cyclesBeforeLongBreak: 4 } },
+  { label: '90 / 15', config: { workMinutes: 90, shortBreakMinutes: 15, longBreakMinutes: 30, cyclesBeforeLongBreak: 3 } },
+];
+
+const isIntervalConfig = (value: unknown): value is IntervalConfig => {
+  return isRecord(value)
+    && [value.workMinutes, value.shortBreakMinutes, value.longBreakMinutes, value.cyclesBeforeLongBreak]
+      .every(n => typeof n === 'number' && Number.isFinite(n) && n > 0);
+};
+
+const isIntervalBlock = (value: unknown): value is IntervalBlock => {
+  return isRecord(value)
+    && typeof value.cycle === 'number'
+    && typeof value.startTime === 'number'
+    && typeof value.endTime === 'number'
+    && typeof value.duration === 'number';
+};
+
+const isIntervalState = (value: unknown): value is IntervalTimerState => {
+  return isRecord(value)
+    && isIntervalConfig(value.config)
+    && typeof value.groupId === 'string'
+    && (value.phase === 'WORK' || value.phase === 'SHORT_BREAK' || value.phase === 'LONG_BREAK')
+    && typeof value.phaseStartTime === 'number'
+    && Array.isArray(value.completedBlocks) && value.completedBlocks.every(isIntervalBlock)
+    && typeof value.concentration === 'number' && Number.isInteger(value.concentration)
+    && value.concentration >= 1 && value.concentration <= 5;
+};
+
+const isPause = (value: unknown): value is SessionPause => {
+  return isRecord(value) && typeof value.start === 'number' && typeof value.end === 'number';
+};
+
+const isSnapshot = (value: unknown): value is ActiveTimerSnapshot => {
+  return isRecord(value)
+    && (value.status === 'RUNNING' || value.status === 'PAUSED' || value.status === 'FINISHED')
+    && typeof value.startTime === 'number'
+    && typeof value.accumulatedMs === 'number'
+    && (value.runningSince === null || typeof value.runningSince === 'number')
+    && (value.endTime === null || typeof value.endTime === 'number')
+    && (value.lastSeenAt === undefined || typeof value.lastSeenAt === 'number')
+    && (value.subject === undefined || typeof value.subject === 'string')
+    && (value.targetMinutes === undefined || typeof value.targetMinutes === 'number')
+    && (value.interval === undefined || isIntervalState(value.interval))
+    && (value.pauses === undefined || (Array.isArray(value.pauses) && value.pauses.every(isPause)))
+    && (value.currentPause === undefined || (isRecord(value.currentPause) && typeof value.currentPause.start === 'number'))
+    && (value.tabSwitches === undefined
+      || (typeof value.tabSwitches === 'number' && Number.isInteger(value.tabSwitches) && value.tabSwitches >= 0));
+};
+
+export const loadActiveTimer = (): ActiveTimerSnapshot | null => {
+  const saved = localStorage.getItem(profileStorageKey(ACTIVE_TIMER_KEY));
+  if (!saved) return null;
+
+  try {
+    const parsed = JSON.parse(saved);
+    if (isSnapshot(parsed)) return parsed;
+    console.error("Ignoring malformed active timer", parsed);
+  } catch (e) {
+    console.error("Failed to parse active timer", e);
+  }
+  return null;
+};
+
+// How often a running session's lastSeenAt is refreshed
+export const LAST_SEEN_INTERVAL_MS = 30 * 1000;
+
+export const saveActiveTimer = (snapshot: ActiveTimerSnapshot) => {
+  localStorage.setItem(profileStorageKey(ACTIVE_TIMER_KEY), JSON.stringify(snapshot));
+};
+
+export const clearActiveTimer = () => {
+  localStorage.removeItem(profileStorageKey(ACTIVE_TIMER_KEY));
+};
+
+export const getElapsedMs = (snapshot: ActiveTimerSnapshot, now: number = Date.now()) => {
+  // Clamp so a clock that jumps backwards never subtracts banked time
+  const running = snapshot.runningSince !== null ? Math.max(0, now - snapshot.runningSince) : 0;
+  return snapshot.accumulatedMs + running;
+};
+
+export const getElapsedSeconds = (snapshot: ActiveTimerSnapshot, now: number = Date.now()) => {
+  return Math.floor(getElapsedMs(snapshot, now) / 1000);
+};
+
+export const startTimer = (now: number = Date.now()): ActiveTimerSnapshot => ({
+  status: 'RUNNING',
+  startTime: now,
+  accumulatedMs: 0,
+  runningSince: now,
+  endTime: null,
+});
+
+export const pauseTimer = (snapshot: ActiveTimerSnapshot, now: number = Date.now()): ActiveTimerSnapshot => {
+  if (snapshot.status !== 'RUNNING') return snapshot;
+  return {
+    ...snapshot,
+    status: 'PAUSED',
+    accumulatedMs: getElapsedMs(snapshot, now),
+    runningSince: null,
+    currentPause: { start: now },
+  };
+};
+
+// Closes the open pause, if any, into the pause list
+const closePause = (snapshot: ActiveTimerSnapshot, now: number): ActiveTimerSnapshot => {
+  if (!snapshot.currentPause) return snapshot;
+  const { start, reason } = snapshot.currentPause;
+  const pause: SessionPause = { start, end: Math.max(start, now), ...(reason ? { reason } : {}) };
+  return { ...snapshot, pauses: [...(snapshot.pauses || []), pause], currentPause: undefined };
+};
+
+export const resumeTimer = (snapshot: ActiveTimerSnapshot, now: number = Date.now()): ActiveTimerSnapshot => {
+  if (snapshot.status !== 'PAUSED') return snapshot;
+  // A phase that has not been started yet begins when the user presses play
+  const interval = snapshot.interval && snapshot.accumulatedMs === 0
+    ? { ...snapshot.interval, phaseStartTime: now }
+    : snapshot.interval;
+  return { ...closePause(snapshot, now), status: 'RUNNING', runningSince: now, interval };
+};
+
+export const setPauseReason = (snapshot: ActiveTimerSnapshot, reason: PauseReason | undefined): ActiveTimerSnapshot => {
+  if (!snapshot.currentPause) return snapshot;
+  return { ...snapshot, currentPause: { ...snapshot.currentPause, reason } };
+};
+
+// Counted while focused time runs; leaving the tab during a break is expected
+export const recordTabSwitch = (snapshot: ActiveTimerSnapshot): ActiveTimerSnapshot => {
+  if (snapshot.status !== 'RUNNING' || (snapshot.interval && snapshot.interval.phase !== 'WORK')) return snapshot;
+  return { ...snapshot, tabSwitches: (snapshot.tabSwitches || 0) + 1 };
+};
+
+// The distraction fields for a session saved from this snapshot
+export const getSessionDistractions = (
+  snapshot: ActiveTimerSnapshot,
+  now: number = Date.now()
+): Pick<StudySession, 'pauses' | 'tabSwitches'> => {
+  const { pauses } = closePause(snapshot, now);
+  return { ...(pauses && pauses.length ? { pauses } : {}), tabSwitches: snapshot.tabSwitches || 0 };
+};
+
+export const finishTimer = (snapshot: ActiveTimerSnapshot, now: number = Date.now()): ActiveTimerSnapshot => {
+  if (snapshot.status === 'FINISHED') return snapshot;
+  return {
+    ...closePause(snapshot, now),
+    status: 'FINISHED',
+    accumulatedMs: getElapsedMs(snapshot, now),
+    runningSince: null,
+    endTime: now,
+  };
+};
+
+// Drops the stretch since `idleSince` and pauses, for a timer left running by
+// someone who walked away or fell asleep. Only the current running stretch can
+// be trimmed; time banked before the last resume is kept.
+export const trimIdleTime = (snapshot: ActiveTimerSnapshot, idleSince: number, now: number = Date.now()): ActiveTimerSnapshot => {
+  if (snapshot.status !== 'RUNNING' || snapshot.runningSince === null) return snapshot;
+  const from = Math.min(now, Math.max(idleSince, snapshot.runningSince));
+  return {
+    ...snapshot,
+    status: 'PAUSED',
+    accumulatedMs: getElapsedMs(snapshot, from),
+    runningSince: null,
+    currentPause: { start: from, reason: 'IDLE' },
+  };
+};
+
+// Interval (Pomodoro) mode
+
+export const loadIntervalConfig = (): IntervalConfig => {
+  const saved = localStorage.getItem(profileStorageKey(INTERVAL_CONFIG_KEY));
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (isIntervalConfig(parsed)) return parsed;
+    } catch (e) {
+      console.error("Failed to parse interval config", e);
+    }
+  }
+  return INTERVAL_PRESETS[0].config;
+};
+
+export const saveIntervalConfig = (config: IntervalConfig) => {
+  localStorage.setItem(profileStorageKey(INTERVAL_CONFIG_KEY), JSON.stringify(config));
+};
+
+export const getPhaseDurationMs = (config: IntervalConfig, phase: IntervalPhase) => {
+  const minutes = phase === 'WORK'
+    ? config.workMinutes
+    : phase === 'LONG_BREAK' ? config.longBreakMinutes : config.shortBreakMinutes;
+  return minutes * 60 * 1000;
+};
+
+export const getPhaseRemainingSeconds = (snapshot: ActiveTimerSnapshot, now: number = Date.now()) => {
+  if (!snapshot.interval) return 0;
+  const total = getPhaseDurationMs(snapshot.interval.config, snapshot.interval.phase);
+  return Math.max(0, Math.ceil((total - getElapsedMs(snapshot, now)) / 1000));
+};
+
+export const startIntervalTimer = (
+  config: IntervalConfig,
+  concentration: ConcentrationLevel,
+  subject?: string,
+  now: number = Date.now()
+): ActiveTimerSnapshot => ({
+  ...startTimer(now),
+  subject,
+  interval: {
+    config,
+    groupId: crypto.randomUUID(),
+    phase: 'WORK',
+    phaseStartTime: now,
+    completedBlocks: [],
+    concentration,
+  },
+});
+
+// Moves an interval timer through every phase boundary that has passed by `now`.
+// Work blocks that completed on the way are returned so they can be recorded.
+// When a break ends the next work block waits for the user instead of starting
+// on its own, so a forgotten tab never logs study time nobody did.
+export const advanceIntervalTimer = (
+  snapshot: ActiveTimerSnapshot,
+  now: number = Date.now()
+): { snapshot: ActiveTimerSnapshot; completedSessions: Omit<StudySession, 'id'>[] } => {
+  const completedSessions: Omit<StudySession, 'id'>[] = [];
+  let current = snapshot;
+
+  while (current.interval && current.status === 'RUNNING' && current.runningSince !== null) {
+    const interval = current.interval;
+    const phaseMs = getPhaseDurationMs(interval.config, interval.phase);
+    if (getElapsedMs(current, now) < phaseMs) break;
+
+    const phaseEnd = current.runningSince + (phaseMs - current.accumulatedMs);
+
+    if (interval.phase === 'WORK') {
+      const cycle = interval.completedBlocks.length + 1;
+      const block = {
+        cycle,
+        startTime: interval.phaseStartTime,
+        endTime: phaseEnd,
+        duration: Math.round(phaseMs / 1000),
+      };
+      completedSessions.push({
+        subject: current.subject || 'General Study',
+        startTime: block.startTime,
+        endTime: block.endTime,
+        duration: block.duration,
+        concentration: interval.concentration,
+        intervalGroupId: interval.groupId,
+        cycle,
+        ...getSessionDistractions(current, phaseEnd),
+      });
+      const nextPhase: IntervalPhase = cycle % interval.config.cyclesBeforeLongBreak === 0 ? 'LONG_BREAK' : 'SHORT_BREAK';
+      current = {
+        ...current,
+        accumulatedMs: 0,
+        runningSince: phaseEnd,
+        pauses: undefined,
+        tabSwitches: undefined,
+        interval: {
+          ...interval,
+          phase: nextPhase,
+          phaseStartTime: phaseEnd,
+          completedBlocks: [...interval.completedBlocks, block],
+        },
+      };
+    } else {
+      current = {
+        ...current,
+        status: 'PAUSED',
+        accumulatedMs: 0,
+        runningSince: null,
+        pauses: undefined,
+        tabSwitches: undefined,
+        interval: { ...interval, phase: 'WORK', phaseStartTime: phaseEnd },
+      };
+    }
+  }
+
+  return { snapshot: current, completedSessions };
+};
+
+// Ends an interval run early. A partly done work block of at least a minute is
+// still returned so the focused time is not lost. Time past the end of the
+// block is left out, as advanceIntervalTimer would have closed it there.
+export const stopIntervalTimer = (
+  snapshot: ActiveTimerSnapshot,
+  now: number = Date.now()
+): Omit<StudySession, 'id'> | null => {
+  const interval = snapshot.interval;
+  if (!interval || interval.phase !== 'WORK') return null;
+
+  const elapsedMs = getElapsedMs(snapshot, now);
+  const workMs = getPhaseDurationMs(interval.config, 'WORK');
+  const blockMs = Math.min(elapsedMs, workMs);
+  const duration = Math.floor(blockMs / 1000);
+  if (duration < 60) return null;
+
+  const endTime = now - (elapsedMs - blockMs);
+  return {
+    subject: snapshot.subject || 'General Study',
+    startTime: interval.phaseStartTime,
+    endTime,
+    duration,
+    concentration: interval.concentration,
+    ...(blockMs < workMs ? { notes: 'Partial interval block' } : {}),
+    intervalGroupId: interval.groupId,
+    cycle: interval.completedBlocks.length + 1,
+    ...getSessionDistractions(snapshot, endTime),
+  };
+};
@@ -1,5 +1,14 @@
 export type ConcentrationLevel = 1 | 2 | 3 | 4 | 5;
 
+export type PauseReason = 'PHONE' | 'BREAK' | 'INTERRUPTION' | 'IDLE';
+
+// One stretch the timer was paused; `start`/`end` are timestamps in ms
+export interface SessionPause {
+  start: number;
+  end: number;
+  reason?: PauseReason;
+}
+
 export interface StudySession {
   id: string;
   subject: string;
@@ -8,14 +17,152 @@ export interface StudySession {
   duration: number; // in seconds
   concentration: ConcentrationLevel;
   notes?: string;
+  intervalGroupId?: string; // shared by the work blocks of one interval run
+  cycle?: number; // 1-based work block number within that run
+  syllabusNodeId?: string; // syllabus node the subject resolved to, if any
+  // Timer sessions only: `duration` is the time between startTime and endTime minus these
+  pauses?: SessionPause[];
+  tabSwitches?: number; // times the tab was hidden while the timer ran
 }
 
 export interface MCQLog {
   id: string;
   timestamp: number;
-  count: number;
-  verified: boolean;
+  count: number; // MCQs attempted; what the daily goal counts
+  verified: boolean; // true only for AI-verified proofs
   feedback: string;
+  proofHash?: string; // SHA-256 of the uploaded proof image, to refuse the same proof twice
+  // Block details, present on manually logged blocks
+  subject?: string;
+  source?: string; // QBank name / module, e.g. "Marrow - Pathology Module 3"
+  correct?: number;
+  incorrect?: number;
+  skipped?: number; // seen but left unanswered; not part of count
+  timeTakenMinutes?: number;
+}
+
+export interface SubjectMarks {
+  subject: string;
+  marks: number; // may be negative with NEET PG's -1 per wrong answer
+  maxMarks: number;
+}
+
+// A Grand Test / full-length mock exam result
+export interface MockTest {
+  id: string;
+  name: string;
+  date: number; // timestamp in ms when the test was taken
+  totalScore: number; // out of maxScore
+  maxScore: number;
+  subjectMarks: SubjectMarks[];
+  rank?: number;
+  percentile?: number;
+  notes?: string;
+}
+
+export type SyllabusNodeKind = 'SUBJECT' | 'CHAPTER' | 'TOPIC';
+
+export interface SyllabusNode {
+  id: string; // slug path, e.g. "anatomy/upper-limb/brachial-plexus"
+  title: string;
+  kind: SyllabusNodeKind;
+  children: SyllabusNode[];
+}
+
+export type SyllabusStatus = 'NOT_STARTED' | 'READ' | 'REVISED';
+
+export interface SyllabusNodeProgress {
+  status: SyllabusStatus;
+  revisions: number; // distinct study days after the first read
+  totalSeconds: number; // includes time logged against descendants
+  sessionsCount: number;
+  coveredTopics: number; // leaf topics at or below this node that have been read
+  totalTopics: number;
+}
+
+export interface GoalSettings {
+  dailyStudyHours: number; // 0 turns the goal off
+  dailyMCQs: number; // 0 turns the goal off
+  weeklySubjectHours: Record<string, number>; // syllabus subject -> hours per week
+  restDays: string[]; // YYYY-MM-DD days that neither count towards nor break a streak
+}
+
+export interface GoalStreak {
+  current: number;
+  longest: number;
+}
+
+// Exam dates as local YYYY-MM-DD; null when not set
+export interface ExamSettings {
+  neetPgDate: string | null;
+  iniCetDate: string | null;
+}
+
+export type ActionPriority = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface CoachActionItem {
+  id: string;
+  text: string; // e.g. "Do 2 hours of Pharmacology ANS"
+  priority: ActionPriority;
+  subject?: string;
+  done: boolean;
+}
+
+export interface CoachWeakSubject {
+  subject: string;
+  reason: string;
+}
+
+// Key numbers over the days before a report, stored with it for later comparison
+export interface CoachReportMetrics {
+  studyHours: number;
+  sessionsCount: number;
+  avgConcentration: number | null;
+  mcqsSolved: number;
+  mcqAccuracy: number | null; // percent, from scored MCQ blocks only
+}
+
+// A structured AI coach report, kept as a dated history
+export interface CoachReport {
+  id: string;
+  createdAt: number; // timestamp in ms
+  provider: string; // label of the AI provider that wrote it
+  summary: string;
+  trends: string[];
+  weakSubjects: CoachWeakSubject[];
+  actionItems: CoachActionItem[];
+  focusTip: string;
+  metrics: CoachReportMetrics;
+}
+
+export interface CoachChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string; // markdown for assistant replies
+  createdAt: number; // timestamp in ms
+}
+
+// A chat with the AI coach; stored on this device only
+export interface CoachConversation {
+  id: string;
+  title: string; // from the first question
+  createdAt: number;
+  updatedAt: number;
+  messages: CoachChatMessage[];
+}
+
+export type OutboxKind = 'MCQ_PROOF' | 'COACH_REPORT';
+
+// An AI request made without a connection, retried once the device is online
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  createdAt: number; // timestamp in ms
+  attempts: number;
+  lastError?: string;
+  // MCQ_PROOF only: the original upload
+  image?: Blob;
+  fileName?: string;
 }
 
 export interface DailyStats {
@@ -37,4 +184,73 @@ export enum ViewState {
   INSIGHTS = 'INSIGHTS',
   SETTINGS = 'SETTINGS',
   MCQ = 'MCQ',
-}
\ No newline at end of file
+  SYLLABUS = 'SYLLABUS',
+  MOCK_TESTS = 'MOCK_TESTS',
+}
+
+export type TimerStatus = 'RUNNING' | 'PAUSED' | 'FINISHED';
+
+export type TimerMode = 'STOPWATCH' | 'INTERVAL';
+
+export type IntervalPhase = 'WORK' | 'SHORT_BREAK' | 'LONG_BREAK';
+
+export interface IntervalConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface IntervalBlock {
+  cycle: number;
+  startTime: number;
+  endTime: number;
+  duration: number; // in seconds
+}
+
+export interface IntervalTimerState {
+  config: IntervalConfig;
+  groupId: string;
+  phase: IntervalPhase;
+  phaseStartTime: number; // timestamp in ms when the current phase began
+  completedBlocks: IntervalBlock[];
+  concentration: ConcentrationLevel; // applied to each recorded work block
+}
+
+// Persisted snapshot of the in-progress Timer session. Elapsed time is always
+// rebuilt from wall-clock timestamps, never from counted interval ticks.
+export interface ActiveTimerSnapshot {
+  status: TimerStatus;
+  startTime: number; // timestamp in ms when the session was first started
+  accumulatedMs: number; // focused time banked before the current running stretch
+  runningSince: number | null; // timestamp in ms of the last start/resume, null while paused
+  endTime: number | null; // timestamp in ms when the session was stopped
+  subject?: string;
+  // Present in interval mode; accumulatedMs/runningSince then track the current phase only
+  interval?: IntervalTimerState;
+  targetMinutes?: number; // stopwatch only: alert once this much time is focused
+  // Distractions so far (current phase only in interval mode)
+  pauses?: SessionPause[];
+  currentPause?: { start: number; reason?: PauseReason }; // open while PAUSED by the user
+  tabSwitches?: number;
+  // Last time an open page had this session, refreshed while it runs. After a
+  // tab is killed, the gap from here to the restore counts as idle time.
+  lastSeenAt?: number;
+}
+
+// A named person on a shared device, with their own database and settings
+export interface StudyProfile {
+  id: string;
+  name: string;
+  createdAt: number; // timestamp in ms
+  // Optional PIN lock: SHA-256 of salt + PIN, never the PIN itself
+  pinHash?: string;
+  pinSalt?: string;
+}
+
+// Device preferences for timer alerts, kept in localStorage
+export interface TimerAlertSettings {
+  notifications: boolean; // browser notifications; needs permission
+  sound: boolean;
+  idleMinutes: number; // 0 turns idle detection off
+}
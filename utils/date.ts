@@ -0,0 +1,50 @@
+// Local (not UTC) date helpers shared by views that bucket data by day
+
+// Returns the local date as YYYY-MM-DD
+export const getLocalDateString = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Formats a timestamp for an <input type="datetime-local"> (YYYY-MM-DDTHH:mm)
+export const toDateTimeInputValue = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const hours = String(d.getHours()).padStart(2, '0');
+  const minutes = String(d.getMinutes()).padStart(2, '0');
+  return `${getLocalDateString(timestamp)}T${hours}:${minutes}`;
+};
+
+// Parses a datetime-local value as local time; returns NaN when empty or invalid
+export const fromDateTimeInputValue = (value: string) => {
+  if (!value) return NaN;
+  return new Date(value).getTime();
+};
+
+// Timestamp of local midnight for the day containing `timestamp`
+export const startOfLocalDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Adds calendar days in local time, so DST changes never shift the result
+export const addLocalDays = (timestamp: number, days: number) => {
+  const d = new Date(timestamp);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+// Whole calendar days from `from` to `to` (negative when `to` is earlier)
+export const diffLocalDays = (from: number, to: number) => {
+  return Math.round((startOfLocalDay(to) - startOfLocalDay(from)) / (24 * 3600 * 1000));
+};
+
+// Local midnight of the Monday that starts the week containing `timestamp`
+export const startOfLocalWeek = (timestamp: number) => {
+  const day = startOfLocalDay(timestamp);
+  const weekday = (new Date(day).getDay() + 6) % 7; // Monday = 0
+  return addLocalDays(day, -weekday);
+};
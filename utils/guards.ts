@@ -0,0 +1,4 @@
+// Narrows parsed JSON from localStorage, IndexedDB or an imported file before
+// its fields are read
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,44 @@
+// Browser-side image helpers for uploads
+
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const readAsDataURL = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Hex SHA-256 of the raw bytes, used to recognise the same file uploaded twice
+export const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Returns a data URL no larger than `maxDimension` on its longest side.
+// Small images in a common format pass through untouched; anything else
+// (large phone photos, HEIC, BMP…) is redrawn and re-encoded as JPEG.
+export const downscaleImage = async (
+  file: Blob,
+  maxDimension: number,
+  maxBytes: number,
+  quality: number = 0.85
+): Promise<{ dataUrl: string; mimeType: string }> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && file.size <= maxBytes && PASSTHROUGH_TYPES.includes(file.type)) {
+      return { dataUrl: await readAsDataURL(file), mimeType: file.type };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/jpeg', quality), mimeType: 'image/jpeg' };
+  } finally {
+    bitmap.close();
+  }
+};